@@ -6,6 +6,12 @@ import { Register } from './pages/Register';
 import { Dashboard } from './pages/Dashboard';
 import { DocumentSign } from './pages/DocumentSign';
 import { DocumentPreview } from './pages/DocumentPreview';
+import { DocumentPrepare } from './pages/DocumentPrepare';
+import { DocumentAudit } from './pages/DocumentAudit';
+import { VerifyDocument } from './pages/VerifyDocument';
+import { Templates } from './pages/Templates';
+import { TemplatePrepare } from './pages/TemplatePrepare';
+import { BulkSend } from './pages/BulkSend';
 import { Profile } from './pages/Profile';
 
 function AppRoutes() {
@@ -29,6 +35,8 @@ function AppRoutes() {
         path="/register"
         element={isAuthenticated ? <Navigate to="/" replace /> : <Register />}
       />
+      {/* Public, with or without an account */}
+      <Route path="/verify" element={<VerifyDocument />} />
       <Route
         path="/"
         element={
@@ -41,7 +49,7 @@ function AppRoutes() {
         path="/documents/:id"
         element={
           <ProtectedRoute requiredRole="management">
-            <Dashboard />
+            <DocumentPrepare />
           </ProtectedRoute>
         }
       />
@@ -61,6 +69,38 @@ function AppRoutes() {
           </ProtectedRoute>
         }
       />
+      <Route
+        path="/documents/:id/audit"
+        element={
+          <ProtectedRoute requiredRole="management">
+            <DocumentAudit />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/templates"
+        element={
+          <ProtectedRoute requiredRole="management">
+            <Templates />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/templates/bulk-send"
+        element={
+          <ProtectedRoute requiredRole="management">
+            <BulkSend />
+          </ProtectedRoute>
+        }
+      />
+      <Route
+        path="/templates/:id"
+        element={
+          <ProtectedRoute requiredRole="management">
+            <TemplatePrepare />
+          </ProtectedRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
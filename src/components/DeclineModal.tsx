@@ -0,0 +1,36 @@
+import { ReasonModal } from './ReasonModal';
+
+interface DeclineModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onDeclined: () => void | Promise<void>;
+  documentId: number | string;
+  documentTitle: string;
+  senderName: string;
+}
+
+export function DeclineModal({ isOpen, onClose, onDeclined, documentId, documentTitle, senderName }: DeclineModalProps) {
+  return (
+    <ReasonModal
+      isOpen={isOpen}
+      onClose={onClose}
+      onSubmitted={onDeclined}
+      title="Decline to Sign"
+      endpoint={`/signing/${documentId}/decline`}
+      fieldName="reason"
+      fieldLabel="Reason"
+      placeholder="Please explain why you are declining to sign this document..."
+      hint="This reason will be included in the email sent to the sender. Anything you filled in is discarded."
+      requiredMessage="Please enter a reason for declining to sign"
+      failureMessage="Failed to decline document"
+      submitLabel="Decline"
+      submittingLabel="Declining..."
+      submitColor="red"
+      documentTitle={documentTitle}
+    >
+      <p className="text-sm text-gray-600 mb-2">
+        <strong>Will be returned to:</strong> {senderName}
+      </p>
+    </ReasonModal>
+  );
+}
@@ -0,0 +1,351 @@
+import { useState, useEffect } from 'react';
+import { Document, Page } from 'react-pdf';
+import api, { getApiErrorMessage } from '../utils/api';
+import { diffPdfFiles } from '../utils/pdfDiff';
+import type { DiffRegion } from '../utils/pdfDiff';
+import { fromStoredRect, loadPageGeometry } from '../utils/pdfCoordinates';
+import type { LoadedDocument, PageGeometryMap } from '../utils/pdfCoordinates';
+import { getFieldTypeLabel } from '../utils/documentFields';
+import type { DocumentField } from '../utils/documentFields';
+
+interface Submission {
+  id: number;
+  submitted_at: string;
+  signer_name?: string;
+}
+
+interface DocumentCompareModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  documentId: string;
+}
+
+const ORIGINAL_VERSION = 'original';
+const SIDE_BY_SIDE_SCALE = 0.7;
+const OVERLAY_SCALE = 1;
+
+const fetchPdfUrl = async (path: string, params?: Record<string, string>) => {
+  const response = await api.get(path, { params, responseType: 'blob' });
+  return URL.createObjectURL(new Blob([response.data], { type: 'application/pdf' }));
+};
+
+const overlaps = (region: DiffRegion, field: DocumentField) =>
+  region.page_number === field.page_number &&
+  region.x_coordinate < field.x_coordinate + field.width &&
+  field.x_coordinate < region.x_coordinate + region.width &&
+  region.y_coordinate < field.y_coordinate + field.height &&
+  field.y_coordinate < region.y_coordinate + region.height;
+
+// Compares the current signed PDF against the original, or against an earlier submission
+// when the document was sent back and re-signed. Changed areas are found by rendering both
+// versions and comparing pixels, then named after the field they fall on where possible.
+export function DocumentCompareModal({ isOpen, onClose, documentId }: DocumentCompareModalProps) {
+  const [submissions, setSubmissions] = useState<Submission[]>([]);
+  const [beforeVersion, setBeforeVersion] = useState(ORIGINAL_VERSION);
+  const [beforeUrl, setBeforeUrl] = useState<string | null>(null);
+  const [afterUrl, setAfterUrl] = useState<string | null>(null);
+  const [beforePageCount, setBeforePageCount] = useState(0);
+  const [afterPageCount, setAfterPageCount] = useState(0);
+  const [fields, setFields] = useState<DocumentField[]>([]);
+  const [pageGeometry, setPageGeometry] = useState<PageGeometryMap | null>(null);
+  // Kept with the file it was computed against, so a stale result is never shown for a new selection
+  const [diff, setDiff] = useState<{ beforeUrl: string; regions: DiffRegion[] } | null>(null);
+  const [viewMode, setViewMode] = useState<'side-by-side' | 'overlay'>('side-by-side');
+  const [overlayOpacity, setOverlayOpacity] = useState(0.5);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [selectedRegion, setSelectedRegion] = useState<number | null>(null);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    fetchPdfUrl(`/documents/${documentId}/download`)
+      .then(url => {
+        if (cancelled) URL.revokeObjectURL(url);
+        else setAfterUrl(url);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load signed document:', error);
+        if (!cancelled) setError(getApiErrorMessage(error, 'Failed to load the signed document'));
+      });
+
+    api.get(`/documents/${documentId}/fields`)
+      .then(response => {
+        if (!cancelled) setFields(response.data.fields || []);
+      })
+      .catch((error) => console.log('No fields defined for this document:', error));
+
+    api.get(`/documents/${documentId}/submissions`)
+      .then(response => {
+        if (cancelled) return;
+        const previous: Submission[] = (response.data.submissions || []).slice(0, -1);
+        setSubmissions(previous);
+        // After a send-back, what changed since the last submission matters more than the original
+        if (previous.length > 0) {
+          setBeforeVersion(previous[previous.length - 1].id.toString());
+        }
+      })
+      .catch((error) => console.log('No earlier submissions for this document:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, documentId]);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    const request = beforeVersion === ORIGINAL_VERSION
+      ? fetchPdfUrl(`/documents/${documentId}/download`, { version: ORIGINAL_VERSION })
+      : fetchPdfUrl(`/documents/${documentId}/submissions/${beforeVersion}/download`);
+    request
+      .then(url => {
+        if (cancelled) URL.revokeObjectURL(url);
+        else setBeforeUrl(url);
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load earlier version:', error);
+        if (!cancelled) setError(getApiErrorMessage(error, 'Failed to load the earlier version'));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, documentId, beforeVersion]);
+
+  useEffect(() => {
+    if (!beforeUrl || !afterUrl) return;
+    let cancelled = false;
+    diffPdfFiles(beforeUrl, afterUrl)
+      .then(regions => {
+        if (!cancelled) setDiff({ beforeUrl, regions });
+      })
+      .catch(error => {
+        console.error('❌ Failed to compare versions:', error);
+        if (!cancelled) setError('Failed to compare the two versions');
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [beforeUrl, afterUrl]);
+
+  useEffect(() => () => {
+    if (beforeUrl) URL.revokeObjectURL(beforeUrl);
+  }, [beforeUrl]);
+
+  useEffect(() => () => {
+    if (afterUrl) URL.revokeObjectURL(afterUrl);
+  }, [afterUrl]);
+
+  const handleBeforeVersionChange = (version: string) => {
+    setBeforeVersion(version);
+    setSelectedRegion(null);
+  };
+
+  const handleAfterLoad = (pdf: LoadedDocument) => {
+    setAfterPageCount(pdf.numPages);
+    if (pageGeometry) return;
+    loadPageGeometry(pdf)
+      .then(setPageGeometry)
+      .catch((error) => console.error('❌ Failed to read page geometry:', error));
+  };
+
+  const handleClose = () => {
+    setError('');
+    setSelectedRegion(null);
+    setPageNumber(1);
+    onClose();
+  };
+
+  if (!isOpen) return null;
+
+  const numPages = afterPageCount;
+  const regions = diff && diff.beforeUrl === beforeUrl ? diff.regions : null;
+  const viewFields = pageGeometry ? fields.map(field => fromStoredRect(field, pageGeometry).field) : [];
+  const describeRegion = (region: DiffRegion) => {
+    const field = viewFields.find(candidate => overlaps(region, candidate));
+    return field ? field.label || getFieldTypeLabel(field.field_type) : 'Added or changed content';
+  };
+  const beforeLabel = beforeVersion === ORIGINAL_VERSION
+    ? 'Original'
+    : `Submission of ${new Date(submissions.find(s => s.id.toString() === beforeVersion)?.submitted_at ?? '').toLocaleString()}`;
+  const scale = viewMode === 'overlay' ? OVERLAY_SCALE : SIDE_BY_SIDE_SCALE;
+
+  const renderPage = (hasPage: boolean) => hasPage ? (
+    <Page pageNumber={pageNumber} scale={scale} renderTextLayer={false} renderAnnotationLayer={false} />
+  ) : (
+    <div className="p-8 text-sm text-gray-500">No page {pageNumber} in this version</div>
+  );
+
+  const outlines = (regions || []).map((region, index) => region.page_number === pageNumber && (
+    <div
+      key={index}
+      className={`absolute border-2 pointer-events-none ${selectedRegion === index ? 'border-red-600 bg-red-500/20' : 'border-red-400 bg-red-500/10'}`}
+      style={{
+        left: `${region.x_coordinate * scale}px`,
+        top: `${region.y_coordinate * scale}px`,
+        width: `${region.width * scale}px`,
+        height: `${region.height * scale}px`,
+      }}
+    >
+      <span className="absolute -top-3 -left-3 w-5 h-5 rounded-full bg-red-600 text-white text-xs flex items-center justify-center">
+        {index + 1}
+      </span>
+    </div>
+  ));
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-7xl w-full mx-4 h-[90vh] flex flex-col">
+        <div className="p-4 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Compare Versions</h2>
+            <p className="text-sm text-gray-600">Areas outlined in red differ between the two versions.</p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b flex flex-wrap items-center gap-4 text-sm">
+          <label className="flex items-center gap-2">
+            Compare
+            <select
+              value={beforeVersion}
+              onChange={(e) => handleBeforeVersionChange(e.target.value)}
+              className="px-2 py-1 border border-gray-300 rounded"
+            >
+              <option value={ORIGINAL_VERSION}>Original</option>
+              {submissions.map(submission => (
+                <option key={submission.id} value={submission.id.toString()}>
+                  Submission of {new Date(submission.submitted_at).toLocaleString()}
+                  {submission.signer_name ? ` by ${submission.signer_name}` : ''}
+                </option>
+              ))}
+            </select>
+            with the current signed version
+          </label>
+          <div className="flex items-center gap-1">
+            <button
+              onClick={() => setViewMode('side-by-side')}
+              aria-pressed={viewMode === 'side-by-side'}
+              className={`px-3 py-1 rounded ${viewMode === 'side-by-side' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
+            >
+              Side by side
+            </button>
+            <button
+              onClick={() => setViewMode('overlay')}
+              aria-pressed={viewMode === 'overlay'}
+              className={`px-3 py-1 rounded ${viewMode === 'overlay' ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
+            >
+              Overlay
+            </button>
+          </div>
+          {viewMode === 'overlay' && (
+            <label className="flex items-center gap-2">
+              Signed version opacity
+              <input
+                type="range"
+                min={0}
+                max={1}
+                step={0.05}
+                value={overlayOpacity}
+                onChange={(e) => setOverlayOpacity(Number(e.target.value))}
+              />
+            </label>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <button
+              onClick={() => setPageNumber(Math.max(1, pageNumber - 1))}
+              disabled={pageNumber <= 1}
+              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span>Page {pageNumber} of {numPages}</span>
+            <button
+              onClick={() => setPageNumber(Math.min(numPages, pageNumber + 1))}
+              disabled={pageNumber >= numPages}
+              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+        </div>
+
+        {error && (
+          <div className="mx-4 mt-2 bg-red-50 border border-red-200 text-red-700 px-4 py-2 rounded text-sm">
+            {error}
+          </div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          <div className="flex-1 overflow-auto bg-gray-100 p-4">
+            {beforeUrl && afterUrl && (viewMode === 'side-by-side' ? (
+              <div className="flex justify-center gap-4">
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-1">{beforeLabel}</h3>
+                  <Document file={beforeUrl} onLoadSuccess={(pdf) => setBeforePageCount(pdf.numPages)} loading={<div className="p-8">Loading...</div>}>
+                    <div className="bg-white shadow">{renderPage(pageNumber <= beforePageCount)}</div>
+                  </Document>
+                </div>
+                <div>
+                  <h3 className="text-sm font-medium text-gray-700 mb-1">Current signed version</h3>
+                  <Document file={afterUrl} onLoadSuccess={handleAfterLoad} loading={<div className="p-8">Loading...</div>}>
+                    <div className="relative bg-white shadow">
+                      {renderPage(true)}
+                      {outlines}
+                    </div>
+                  </Document>
+                </div>
+              </div>
+            ) : (
+              <div className="flex justify-center">
+                <div className="relative bg-white shadow">
+                  <Document file={beforeUrl} onLoadSuccess={(pdf) => setBeforePageCount(pdf.numPages)} loading={<div className="p-8">Loading...</div>}>
+                    {renderPage(pageNumber <= beforePageCount)}
+                  </Document>
+                  <div className="absolute inset-0" style={{ opacity: overlayOpacity }}>
+                    <Document file={afterUrl} onLoadSuccess={handleAfterLoad} loading={null}>
+                      {renderPage(true)}
+                    </Document>
+                  </div>
+                  {outlines}
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="w-64 border-l p-4 overflow-y-auto">
+            <h3 className="font-medium text-gray-900 mb-2">Changes</h3>
+            {regions === null ? (
+              <p className="text-sm text-gray-500">Comparing versions...</p>
+            ) : regions.length === 0 ? (
+              <p className="text-sm text-gray-500">No visible differences.</p>
+            ) : (
+              <ol className="space-y-1">
+                {regions.map((region, index) => (
+                  <li key={index}>
+                    <button
+                      onClick={() => {
+                        setPageNumber(region.page_number);
+                        setSelectedRegion(index);
+                      }}
+                      className={`w-full text-left px-2 py-1 rounded text-sm ${selectedRegion === index ? 'bg-red-50 text-red-800' : 'hover:bg-gray-100'}`}
+                    >
+                      <span className="font-medium">{index + 1}.</span> {describeRegion(region)}
+                      <span className="block text-xs text-gray-500">Page {region.page_number}</span>
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,60 @@
+import { formatDistanceToNow } from 'date-fns';
+
+interface DraftConflictModalProps {
+  isOpen: boolean;
+  localSavedAt: number;
+  serverSavedAt: number;
+  onKeepLocal: () => void;
+  onKeepServer: () => void;
+}
+
+// Shown when the server has a newer draft than the one in this browser,
+// e.g. because the document was also being signed in another tab
+export function DraftConflictModal({
+  isOpen,
+  localSavedAt,
+  serverSavedAt,
+  onKeepLocal,
+  onKeepServer,
+}: DraftConflictModalProps) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-lg w-full mx-4">
+        <div className="p-6">
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">Which draft do you want to keep?</h2>
+
+          <p className="text-sm text-gray-600 mb-4">
+            A newer version of this draft was saved somewhere else, possibly in another tab or on another
+            device. Choose the version to continue with. The other one will be discarded.
+          </p>
+
+          <div className="mb-6 space-y-2 text-sm">
+            <div className="p-3 bg-gray-50 border border-gray-200 rounded">
+              <strong>This browser:</strong> saved {formatDistanceToNow(new Date(localSavedAt), { addSuffix: true })}
+            </div>
+            <div className="p-3 bg-blue-50 border border-blue-200 rounded">
+              <strong>Server:</strong> saved {formatDistanceToNow(new Date(serverSavedAt), { addSuffix: true })}
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onKeepLocal}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+            >
+              Keep This Browser's Version
+            </button>
+            <button
+              onClick={onKeepServer}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+            >
+              Use Server Version
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
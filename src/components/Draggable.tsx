@@ -1,73 +1,101 @@
-import { useRef, useEffect, useState, ReactNode, CSSProperties } from 'react';
+import { useRef, useEffect, useState } from 'react';
+import type { ReactNode, CSSProperties } from 'react';
 
 interface DraggableProps {
   children: ReactNode;
   disabled?: boolean;
   position: { x: number; y: number };
-  onStop: (e: MouseEvent, data: { x: number; y: number }) => void;
+  onStop: (e: PointerEvent, data: { x: number; y: number }) => void;
+  // Called on every move; may return an adjusted position, e.g. to snap to a grid
+  onDrag?: (data: { x: number; y: number }) => { x: number; y: number } | void;
   defaultPosition?: { x: number; y: number };
 }
 
-export function Draggable({ children, disabled = false, position, onStop }: DraggableProps) {
+// Movement (in px) before a press turns into a drag, so taps still reach inputs inside the node
+const DRAG_THRESHOLD = 4;
+
+export function Draggable({ children, disabled = false, position, onStop, onDrag }: DraggableProps) {
   const nodeRef = useRef<HTMLDivElement>(null);
-  const [isDragging, setIsDragging] = useState(false);
-  const [currentPosition, setCurrentPosition] = useState(position);
+  // Only set while dragging; otherwise the node sits at the position from props
+  const [dragPosition, setDragPosition] = useState<{ x: number; y: number } | null>(null);
+  const isDragging = dragPosition !== null;
+  const currentPosition = dragPosition ?? position;
   const dragStateRef = useRef({ startX: 0, startY: 0, initialX: 0, initialY: 0 });
 
-  useEffect(() => {
-    setCurrentPosition(position);
-  }, [position]);
-
   useEffect(() => {
     if (disabled || !nodeRef.current) return;
 
     const node = nodeRef.current;
 
-    const handleMouseDown = (e: MouseEvent) => {
-      if (disabled) return;
-      
-      e.preventDefault();
+    const handlePointerDown = (e: PointerEvent) => {
+      if (disabled || !e.isPrimary || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+      // Resize handles and buttons handle their own pointer input
+      const target = e.target as HTMLElement;
+      if (target.closest('.react-resizable-handle, button')) return;
+
       e.stopPropagation();
-      setIsDragging(true);
-      
+      let dragging = false;
+      let lastPosition = currentPosition;
+
       dragStateRef.current.startX = e.clientX;
       dragStateRef.current.startY = e.clientY;
       dragStateRef.current.initialX = currentPosition.x;
       dragStateRef.current.initialY = currentPosition.y;
 
-      const handleMouseMove = (e: MouseEvent) => {
+      const handlePointerMove = (e: PointerEvent) => {
         const deltaX = e.clientX - dragStateRef.current.startX;
         const deltaY = e.clientY - dragStateRef.current.startY;
-        
-        const newX = dragStateRef.current.initialX + deltaX;
-        const newY = dragStateRef.current.initialY + deltaY;
-        
-        setCurrentPosition({ x: newX, y: newY });
+
+        if (!dragging) {
+          if (Math.hypot(deltaX, deltaY) < DRAG_THRESHOLD) return;
+          dragging = true;
+        }
+
+        e.preventDefault();
+        const newPosition = {
+          x: dragStateRef.current.initialX + deltaX,
+          y: dragStateRef.current.initialY + deltaY,
+        };
+
+        lastPosition = (onDrag && onDrag(newPosition)) || newPosition;
+        setDragPosition(lastPosition);
+      };
+
+      const removeListeners = () => {
+        document.removeEventListener('pointermove', handlePointerMove);
+        document.removeEventListener('pointerup', handlePointerUp);
+        document.removeEventListener('pointercancel', handlePointerCancel);
       };
 
-      const handleMouseUp = (e: MouseEvent) => {
-        setIsDragging(false);
-        document.removeEventListener('mousemove', handleMouseMove);
-        document.removeEventListener('mouseup', handleMouseUp);
-        
-        const finalX = dragStateRef.current.initialX + (e.clientX - dragStateRef.current.startX);
-        const finalY = dragStateRef.current.initialY + (e.clientY - dragStateRef.current.startY);
-        
+      const handlePointerUp = (e: PointerEvent) => {
+        removeListeners();
+        if (!dragging) return;
+
+        setDragPosition(null);
+        // The last rendered position, so any adjustment made in onDrag sticks
         if (onStop) {
-          onStop(e, { x: finalX, y: finalY });
+          onStop(e, lastPosition);
         }
       };
 
-      document.addEventListener('mousemove', handleMouseMove);
-      document.addEventListener('mouseup', handleMouseUp);
+      // The browser took over the gesture (e.g. a system swipe) - put the node back
+      const handlePointerCancel = () => {
+        removeListeners();
+        setDragPosition(null);
+      };
+
+      document.addEventListener('pointermove', handlePointerMove);
+      document.addEventListener('pointerup', handlePointerUp);
+      document.addEventListener('pointercancel', handlePointerCancel);
     };
 
-    node.addEventListener('mousedown', handleMouseDown);
+    node.addEventListener('pointerdown', handlePointerDown);
 
     return () => {
-      node.removeEventListener('mousedown', handleMouseDown);
+      node.removeEventListener('pointerdown', handlePointerDown);
     };
-  }, [disabled, currentPosition, onStop]);
+  }, [disabled, currentPosition, onStop, onDrag]);
 
   const style: CSSProperties = {
     position: 'absolute',
@@ -75,6 +103,8 @@ export function Draggable({ children, disabled = false, position, onStop }: Drag
     top: `${currentPosition.y}px`,
     cursor: disabled ? 'default' : isDragging ? 'grabbing' : 'grab',
     userSelect: 'none',
+    // Let fingers drag the field instead of scrolling the page
+    touchAction: disabled ? 'auto' : 'none',
     zIndex: isDragging ? 1000 : 'auto',
   };
 
@@ -84,4 +114,3 @@ export function Draggable({ children, disabled = false, position, onStop }: Drag
     </div>
   );
 }
-
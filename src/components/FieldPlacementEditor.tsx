@@ -0,0 +1,504 @@
+import { useState, useMemo } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import { Draggable } from './Draggable';
+import { Resizable } from 'react-resizable';
+import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
+import 'react-pdf/dist/esm/Page/TextLayer.css';
+import 'react-resizable/css/styles.css';
+import './PDFSigningInterface.css';
+import {
+  FIELD_TYPES,
+  RECIPIENT_COLORS,
+  createFieldId,
+  getFieldTypeLabel,
+} from '../utils/documentFields';
+import type { DocumentField, FieldType } from '../utils/documentFields';
+import {
+  CUSTOM_MERGE_PREFIX,
+  MERGEABLE_FIELD_TYPES,
+  MERGE_KEYS,
+  getMergeKeyLabel,
+  isCustomMergeKey,
+  normalizeMergeKey,
+} from '../utils/mergeFields';
+import { loadPageGeometry } from '../utils/pdfCoordinates';
+import type { PageGeometryMap } from '../utils/pdfCoordinates';
+
+const WORKER_URL = '/pdf.worker.min.mjs';
+pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+
+// Fields belong to recipients by email on a document, and to named roles on a template
+type RecipientKind = 'email' | 'role';
+
+const RECIPIENT_WORDING: Record<RecipientKind, { singular: string; plural: string; placeholder: string }> = {
+  email: { singular: 'recipient', plural: 'Recipients', placeholder: 'recipient@example.com' },
+  role: { singular: 'role', plural: 'Roles', placeholder: 'e.g. Employee' },
+};
+
+interface FieldPlacementEditorProps {
+  pdfUrl: string;
+  fields: DocumentField[];
+  onFieldsChange: (fields: DocumentField[]) => void;
+  // Emails, or role names when recipientKind is 'role'. Fields refer to them by recipient_email.
+  recipients: string[];
+  onRecipientsChange: (recipients: string[]) => void;
+  recipientKind?: RecipientKind;
+  onSave: () => void;
+  saving?: boolean;
+  // Page boxes and rotation, for converting field geometry to and from PDF points
+  onPageGeometryLoad?: (geometry: PageGeometryMap) => void;
+}
+
+export function FieldPlacementEditor({
+  pdfUrl,
+  fields,
+  onFieldsChange,
+  recipients,
+  onRecipientsChange,
+  recipientKind = 'email',
+  onSave,
+  saving = false,
+  onPageGeometryLoad,
+}: FieldPlacementEditorProps) {
+  const [numPages, setNumPages] = useState(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [scale, setScale] = useState(1.0);
+  const [placingType, setPlacingType] = useState<FieldType | null>(null);
+  const [activeRecipient, setActiveRecipient] = useState(recipients[0] || '');
+  const [activeField, setActiveField] = useState<string | null>(null);
+  const [newRecipient, setNewRecipient] = useState('');
+
+  const pdfOptions = useMemo(() => ({
+    cMapUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/standard_fonts/`,
+  }), []);
+
+  const wording = RECIPIENT_WORDING[recipientKind];
+  const selectedField = fields.find(f => f.id === activeField) || null;
+  const currentRecipient = recipients.includes(activeRecipient) ? activeRecipient : recipients[0] || '';
+
+  const getRecipientColor = (email: string) => {
+    const index = recipients.indexOf(email);
+    return RECIPIENT_COLORS[(index >= 0 ? index : 0) % RECIPIENT_COLORS.length];
+  };
+
+  const handlePageClick = (e: React.MouseEvent<HTMLDivElement>, pageNum: number) => {
+    if (!placingType) {
+      setActiveField(null);
+      return;
+    }
+    if (!currentRecipient) {
+      alert(`Add a ${wording.singular} before placing fields`);
+      return;
+    }
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const defaults = FIELD_TYPES.find(t => t.type === placingType)!;
+    const newField: DocumentField = {
+      id: createFieldId(),
+      field_type: placingType,
+      recipient_email: currentRecipient,
+      page_number: pageNum,
+      x_coordinate: (e.clientX - rect.left) / scale,
+      y_coordinate: (e.clientY - rect.top) / scale,
+      width: defaults.width,
+      height: defaults.height,
+      required: placingType !== 'checkbox',
+    };
+
+    onFieldsChange([...fields, newField]);
+    setActiveField(newField.id);
+    setPlacingType(null);
+  };
+
+  const updateField = (id: string, updates: Partial<DocumentField>) => {
+    onFieldsChange(fields.map(field =>
+      field.id === id ? { ...field, ...updates } : field
+    ));
+  };
+
+  const deleteField = (id: string) => {
+    onFieldsChange(fields.filter(f => f.id !== id));
+    setActiveField(null);
+  };
+
+  const handleAddRecipient = () => {
+    if (recipientKind === 'role') {
+      const role = newRecipient.trim();
+      if (!role) return;
+      // Roles keep the sender's capitalisation but "employee" and "Employee" are the same role
+      const existing = recipients.find(r => r.toLowerCase() === role.toLowerCase());
+      if (!existing) {
+        onRecipientsChange([...recipients, role]);
+      }
+      setActiveRecipient(existing || role);
+      setNewRecipient('');
+      return;
+    }
+
+    const email = newRecipient.trim().toLowerCase();
+    if (!email) return;
+
+    const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+    if (!emailRegex.test(email)) {
+      alert(`Invalid email format: ${email}`);
+      return;
+    }
+    if (!recipients.includes(email)) {
+      onRecipientsChange([...recipients, email]);
+    }
+    setActiveRecipient(email);
+    setNewRecipient('');
+  };
+
+  const handleRemoveRecipient = (email: string) => {
+    const assignedCount = fields.filter(f => f.recipient_email === email).length;
+    if (assignedCount > 0 && !confirm(`Remove ${email} and their ${assignedCount} field(s)?`)) {
+      return;
+    }
+    onRecipientsChange(recipients.filter(r => r !== email));
+    onFieldsChange(fields.filter(f => f.recipient_email !== email));
+  };
+
+  return (
+    <div className="flex h-full bg-gray-100">
+      {/* Left: PDF Viewer */}
+      <div className="flex-1 overflow-auto p-4">
+        <div className="mb-4 flex items-center justify-between bg-white p-2 rounded shadow">
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setPageNumber(Math.max(1, pageNumber - 1))}
+              disabled={pageNumber <= 1}
+              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+            >
+              Previous
+            </button>
+            <span className="text-sm">
+              Page {pageNumber} of {numPages}
+            </span>
+            <button
+              onClick={() => setPageNumber(Math.min(numPages, pageNumber + 1))}
+              disabled={pageNumber >= numPages}
+              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+            >
+              Next
+            </button>
+          </div>
+          <div className="flex items-center space-x-2">
+            <button
+              onClick={() => setScale(Math.max(0.5, scale - 0.1))}
+              className="px-3 py-1 bg-gray-200 rounded"
+            >
+              -
+            </button>
+            <span className="text-sm">{Math.round(scale * 100)}%</span>
+            <button
+              onClick={() => setScale(Math.min(2, scale + 0.1))}
+              className="px-3 py-1 bg-gray-200 rounded"
+            >
+              +
+            </button>
+            <button
+              onClick={() => setScale(1.0)}
+              className="px-3 py-1 bg-gray-200 rounded"
+            >
+              Fit
+            </button>
+          </div>
+        </div>
+
+        <div className="flex justify-center">
+          <div className="relative">
+            <Document
+              file={pdfUrl}
+              onLoadSuccess={(pdf) => {
+                setNumPages(pdf.numPages);
+                if (onPageGeometryLoad) {
+                  loadPageGeometry(pdf)
+                    .then(onPageGeometryLoad)
+                    .catch((error) => console.error('❌ Failed to read page geometry:', error));
+                }
+              }}
+              onLoadError={(error) => {
+                console.error('❌ PDF load error:', error);
+                alert(`Failed to load PDF document: ${error.message || 'Unknown error'}. Please refresh the page and try again.`);
+              }}
+              loading={<div className="text-center p-8">Loading PDF...</div>}
+              options={pdfOptions}
+            >
+              {/* Only the current page is rendered; geometry for every page comes from loadPageGeometry */}
+              {numPages > 0 && (
+                <div
+                  key={pageNumber}
+                  className="mb-4"
+                  onClick={(e) => handlePageClick(e, pageNumber)}
+                  style={{
+                    position: 'relative',
+                    cursor: placingType ? 'crosshair' : 'default',
+                  }}
+                >
+                  <Page
+                    pageNumber={pageNumber}
+                    scale={scale}
+                    renderTextLayer={true}
+                    renderAnnotationLayer={true}
+                  />
+
+                  {fields
+                    .filter(field => field.page_number === pageNumber)
+                    .map(field => {
+                      const color = getRecipientColor(field.recipient_email);
+                      return (
+                        <Draggable
+                          key={field.id}
+                          onStop={(_e, data) => {
+                            updateField(field.id, {
+                              x_coordinate: data.x / scale,
+                              y_coordinate: data.y / scale,
+                            });
+                          }}
+                          position={{
+                            x: field.x_coordinate * scale,
+                            y: field.y_coordinate * scale,
+                          }}
+                        >
+                          <Resizable
+                            width={field.width * scale}
+                            height={field.height * scale}
+                            onResize={(_e, { size }) => {
+                              updateField(field.id, {
+                                width: size.width / scale,
+                                height: size.height / scale,
+                              });
+                            }}
+                          >
+                            <div
+                              className="absolute border-2 text-xs flex items-center justify-center overflow-hidden"
+                              onClick={(e) => {
+                                e.stopPropagation();
+                                setActiveField(field.id);
+                              }}
+                              style={{
+                                width: `${field.width * scale}px`,
+                                height: `${field.height * scale}px`,
+                                borderColor: color,
+                                backgroundColor: `${color}22`,
+                                borderStyle: activeField === field.id ? 'solid' : 'dashed',
+                              }}
+                              title={`${getFieldTypeLabel(field.field_type)} - ${field.recipient_email}`}
+                            >
+                              {activeField === field.id && (
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    deleteField(field.id);
+                                  }}
+                                  className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
+                                >
+                                  ×
+                                </button>
+                              )}
+                              {field.field_type !== 'checkbox' && (
+                                <span style={{ color }}>
+                                  {field.label || (field.merge_key
+                                    ? `{${getMergeKeyLabel(field.merge_key)}}`
+                                    : getFieldTypeLabel(field.field_type))}
+                                  {field.required && ' *'}
+                                  {field.merge_key && field.locked && ' 🔒'}
+                                </span>
+                              )}
+                            </div>
+                          </Resizable>
+                        </Draggable>
+                      );
+                    })}
+                </div>
+              )}
+            </Document>
+          </div>
+        </div>
+      </div>
+
+      {/* Right: Preparation Panel */}
+      <div className="w-80 bg-white shadow-lg p-6 overflow-y-auto">
+        <h2 className="text-xl font-bold mb-2">Prepare Fields</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          {placingType
+            ? `Click on the document to place a ${getFieldTypeLabel(placingType).toLowerCase()} field`
+            : `Choose a ${wording.singular} and a field type, then click on the document to place it`}
+        </p>
+
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">{wording.plural}</h3>
+          <div className="space-y-2 mb-2">
+            {recipients.length === 0 && (
+              <p className="text-xs text-gray-500">No {wording.plural.toLowerCase()} yet</p>
+            )}
+            {recipients.map(email => (
+              <div
+                key={email}
+                onClick={() => setActiveRecipient(email)}
+                className={`flex items-center justify-between p-2 rounded cursor-pointer border ${
+                  currentRecipient === email ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                }`}
+              >
+                <div className="flex items-center space-x-2 min-w-0">
+                  <span
+                    className="w-3 h-3 rounded-full flex-shrink-0"
+                    style={{ backgroundColor: getRecipientColor(email) }}
+                  />
+                  <span className="text-sm truncate">{email}</span>
+                </div>
+                <button
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    handleRemoveRecipient(email);
+                  }}
+                  className="text-gray-400 hover:text-red-600 text-sm ml-2"
+                >
+                  ×
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="flex space-x-2">
+            <input
+              type={recipientKind === 'email' ? 'email' : 'text'}
+              value={newRecipient}
+              onChange={(e) => setNewRecipient(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') {
+                  e.preventDefault();
+                  handleAddRecipient();
+                }
+              }}
+              placeholder={wording.placeholder}
+              className="flex-1 min-w-0 px-3 py-1 border border-gray-300 rounded text-sm"
+            />
+            <button
+              onClick={handleAddRecipient}
+              className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300"
+            >
+              Add
+            </button>
+          </div>
+        </div>
+
+        <div className="mb-6">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Field Types</h3>
+          <div className="grid grid-cols-2 gap-2">
+            {FIELD_TYPES.map(({ type, label }) => (
+              <button
+                key={type}
+                onClick={() => {
+                  setPlacingType(placingType === type ? null : type);
+                  setActiveField(null);
+                }}
+                disabled={!currentRecipient}
+                className={`px-3 py-2 rounded text-sm disabled:opacity-50 ${
+                  placingType === type ? 'bg-blue-600 text-white' : 'bg-gray-200 hover:bg-gray-300'
+                }`}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {selectedField && (
+          <div className="mb-6 p-3 border border-gray-200 rounded">
+            <h3 className="text-sm font-medium text-gray-700 mb-2">
+              {getFieldTypeLabel(selectedField.field_type)} Field
+            </h3>
+            <label className="block text-xs text-gray-600 mb-1 capitalize">{wording.singular}</label>
+            <select
+              value={selectedField.recipient_email}
+              onChange={(e) => updateField(selectedField.id, { recipient_email: e.target.value })}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm mb-2"
+            >
+              {recipients.map(email => (
+                <option key={email} value={email}>{email}</option>
+              ))}
+            </select>
+            <label className="block text-xs text-gray-600 mb-1">Label (optional)</label>
+            <input
+              type="text"
+              value={selectedField.label || ''}
+              onChange={(e) => updateField(selectedField.id, { label: e.target.value })}
+              placeholder={getFieldTypeLabel(selectedField.field_type)}
+              className="w-full px-2 py-1 border border-gray-300 rounded text-sm mb-2"
+            />
+            {MERGEABLE_FIELD_TYPES.includes(selectedField.field_type) && (
+              <>
+                <label className="block text-xs text-gray-600 mb-1">Pre-fill from</label>
+                <select
+                  value={selectedField.merge_key && isCustomMergeKey(selectedField.merge_key)
+                    ? CUSTOM_MERGE_PREFIX
+                    : selectedField.merge_key || ''}
+                  onChange={(e) => updateField(selectedField.id, e.target.value
+                    ? { merge_key: e.target.value }
+                    : { merge_key: undefined, locked: undefined })}
+                  className="w-full px-2 py-1 border border-gray-300 rounded text-sm mb-2"
+                >
+                  <option value="">Nothing, the {wording.singular} types it</option>
+                  {MERGE_KEYS.map(({ key, label }) => (
+                    <option key={key} value={key}>{label}</option>
+                  ))}
+                  <option value={CUSTOM_MERGE_PREFIX}>Custom value...</option>
+                </select>
+                {selectedField.merge_key && isCustomMergeKey(selectedField.merge_key) && (
+                  <input
+                    type="text"
+                    value={selectedField.merge_key.slice(CUSTOM_MERGE_PREFIX.length)}
+                    onChange={(e) => updateField(selectedField.id, { merge_key: `${CUSTOM_MERGE_PREFIX}${e.target.value}` })}
+                    onBlur={() => {
+                      const mergeKey = normalizeMergeKey(selectedField.merge_key);
+                      updateField(selectedField.id, mergeKey
+                        ? { merge_key: mergeKey }
+                        : { merge_key: undefined, locked: undefined });
+                    }}
+                    placeholder="Key, e.g. start_date"
+                    className="w-full px-2 py-1 border border-gray-300 rounded text-sm mb-2"
+                  />
+                )}
+                {selectedField.merge_key && (
+                  <label className="flex items-center space-x-2 text-sm mb-2">
+                    <input
+                      type="checkbox"
+                      checked={!!selectedField.locked}
+                      onChange={(e) => updateField(selectedField.id, { locked: e.target.checked })}
+                      className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                    />
+                    <span>Locked (can't be edited while signing)</span>
+                  </label>
+                )}
+              </>
+            )}
+            <label className="flex items-center space-x-2 text-sm">
+              <input
+                type="checkbox"
+                checked={selectedField.required}
+                onChange={(e) => updateField(selectedField.id, { required: e.target.checked })}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Required</span>
+            </label>
+          </div>
+        )}
+
+        <div className="mb-4 text-xs text-gray-500">
+          {fields.length} field(s) placed, {fields.filter(f => f.required).length} required
+        </div>
+
+        <button
+          onClick={onSave}
+          disabled={saving}
+          className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+        >
+          {saving ? 'Saving...' : 'Save Fields'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,75 @@
+import { useState } from 'react';
+import { Document, Page } from 'react-pdf';
+
+interface FinalPreviewModalProps {
+  fileUrl: string | null;
+  onClose: () => void;
+  onSubmit: () => void;
+}
+
+// Shows the flattened PDF page by page, without any editing overlays
+export function FinalPreviewModal({ fileUrl, onClose, onSubmit }: FinalPreviewModalProps) {
+  const [numPages, setNumPages] = useState(0);
+
+  if (!fileUrl) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-4xl w-full mx-4 max-h-[90vh] flex flex-col">
+        <div className="p-6 border-b flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold text-gray-900">Preview Final Document</h2>
+            <p className="text-sm text-gray-600">
+              This is how the signed document will be stored. Check that text and signatures sit where you expect.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600 text-2xl"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-auto bg-gray-100 p-4">
+          <Document
+            file={fileUrl}
+            onLoadSuccess={({ numPages }) => setNumPages(numPages)}
+            loading={<div className="text-center p-8">Rendering preview...</div>}
+            error={<div className="text-center p-8 text-red-600">Failed to render the preview.</div>}
+          >
+            {Array.from({ length: numPages }, (_, index) => index + 1).map(pageNum => (
+              <div key={pageNum} className="mb-4 flex flex-col items-center">
+                <Page
+                  pageNumber={pageNum}
+                  scale={1}
+                  renderTextLayer={false}
+                  renderAnnotationLayer={false}
+                  className="shadow"
+                />
+                <span className="text-xs text-gray-500 mt-1">
+                  Page {pageNum} of {numPages}
+                </span>
+              </div>
+            ))}
+          </Document>
+        </div>
+
+        <div className="p-4 border-t flex justify-end space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+          >
+            Back to Editing
+          </button>
+          <button
+            onClick={onSubmit}
+            className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Submit & Sign Document
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,11 +1,34 @@
-import { useState, useEffect, useRef, useMemo } from 'react';
-import { Document, Page, pdfjs } from 'react-pdf';
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { pdfjs } from 'react-pdf';
 import { Draggable } from './Draggable';
 import { Resizable } from 'react-resizable';
-import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
-import 'react-pdf/dist/esm/Page/TextLayer.css';
 import 'react-resizable/css/styles.css';
 import api from '../utils/api';
+import { countFieldsByPage, getFieldTypeLabel, isFieldComplete, sortInDocumentOrder } from '../utils/documentFields';
+import { applyMergeValues, isMergeFieldLocked } from '../utils/mergeFields';
+import type { MergeData } from '../utils/mergeFields';
+import type { DocumentField, StoredField } from '../utils/documentFields';
+import { SIGNATURE_FONTS, renderTypedSignature } from '../utils/typedSignature';
+import { loadSavedSignatures, loadSignatureImage, uploadSignatureBlob, validateSignatureImage } from '../utils/signatureImages';
+import type { SavedSignature } from '../utils/signatureImages';
+import { parseStrokeData } from '../utils/signatureStrokes';
+import type { SignatureStrokeData } from '../utils/signatureStrokes';
+import { SignaturePad } from './SignaturePad';
+import type { SignaturePadHandle } from './SignaturePad';
+import { StrokeSignature } from './StrokeSignature';
+import { useHistory } from '../hooks/useHistory';
+import { deleteLocalDraft, formatSavedAgo, loadLocalDraft, saveLocalDraft } from '../utils/draftStorage';
+import type { LocalDraft, ServerDraft, SigningDraftPayload } from '../utils/draftStorage';
+import { DraftConflictModal } from './DraftConflictModal';
+import { FinalPreviewModal } from './FinalPreviewModal';
+import { flattenSignedPdf } from '../utils/pdfFlatten';
+import { fromStoredRect, toStoredRect } from '../utils/pdfCoordinates';
+import type { FieldRect, LoadedDocument, PageGeometryMap } from '../utils/pdfCoordinates';
+import { alignFields, distributeFields, getTextBaselines, snapFieldPosition } from '../utils/fieldSnapping';
+import type { AlignCommand, DistributeAxis, FieldBox, SnapGuide } from '../utils/fieldSnapping';
+import { PDFViewer } from './PDFViewer';
+import type { PDFViewerHandle } from './PDFViewer';
+import { PageThumbnails } from './PageThumbnails';
 import './PDFSigningInterface.css';
 
 // Configure PDF.js worker - CRITICAL: Worker version MUST match react-pdf's bundled pdfjs-dist version
@@ -39,13 +62,100 @@ interface Signature {
   height: number;
   signature_image_path: string;
   imageUrl?: string;
+  stroke_data?: SignatureStrokeData;
 }
 
+interface SigningWorkspace {
+  textFields: TextField[];
+  signatures: Signature[];
+}
+
+// Value of a sender-defined field as stored in a draft
+interface SavedFieldValue {
+  id: string | number;
+  value: string;
+  stroke_data?: unknown;
+}
+
+// A sender-defined field as /signing/:id/fields returns it, with any value already submitted
+type AssignedFieldRow = Omit<StoredField, 'id' | 'stroke_data'> & { id: number; stroke_data?: unknown };
+
+type DraftStatus = 'idle' | 'saving' | 'saved' | 'offline';
+
+interface DraftConflict {
+  local: LocalDraft;
+  server: ServerDraft | null;
+  serverSavedAt: number;
+}
+
+// Wait for a pause in editing before autosaving to the server
+const AUTOSAVE_DELAY_MS = 1500;
+
+// Body shared by the draft and submit endpoints. Geometry goes out in PDF points.
+const buildDraftPayload = (
+  textFields: TextField[],
+  signatures: Signature[],
+  assignedFields: DocumentField[],
+  pageGeometry: PageGeometryMap
+): SigningDraftPayload => ({
+  textFields: textFields.map(tf => ({
+    ...toStoredRect(tf, pageGeometry),
+    font_size: tf.font_size,
+    text_content: tf.text_content,
+  })),
+  signatures: signatures.map(sig => ({
+    ...toStoredRect(sig, pageGeometry),
+    signature_image_path: sig.signature_image_path,
+    stroke_data: sig.stroke_data || null,
+  })),
+  fields: assignedFields.map(field => ({
+    id: field.id,
+    value: field.value || '',
+    stroke_data: field.stroke_data || null,
+    // Records where a pre-filled value came from
+    merge_key: field.merge_key || null,
+  })),
+});
+
+// Arrow-key nudges in view units at 100% zoom; Shift moves by the larger step
+const NUDGE_STEP = 1;
+const NUDGE_STEP_LARGE = 10;
+
+// Screen reader description, e.g. "Signature on page 2 at 120, 340"
+const describeFieldPosition = (
+  kind: string,
+  field: { page_number: number; x_coordinate: number; y_coordinate: number }
+) => `${kind} on page ${field.page_number} at ${Math.round(field.x_coordinate)}, ${Math.round(field.y_coordinate)}`;
+
+const toFieldBox = (field: { id: string; x_coordinate: number; y_coordinate: number; width: number; height: number }): FieldBox => ({
+  id: field.id,
+  x: field.x_coordinate,
+  y: field.y_coordinate,
+  width: field.width,
+  height: field.height,
+});
+
+const ALIGN_COMMANDS: { command: AlignCommand; label: string }[] = [
+  { command: 'left', label: 'Left' },
+  { command: 'center', label: 'Centre' },
+  { command: 'right', label: 'Right' },
+  { command: 'top', label: 'Top' },
+  { command: 'middle', label: 'Middle' },
+  { command: 'bottom', label: 'Bottom' },
+];
+
+const getDraftTimestamp = (data: ServerDraft | null): number =>
+  data?.updated_at ? new Date(data.updated_at).getTime() || 0 : 0;
+
 interface PDFSigningInterfaceProps {
   documentId: number;
   pdfUrl: string;
   onSaveDraft: () => void;
   onSubmit: () => void;
+  // Shows a "Decline to Sign" action; the caller collects the reason
+  onDecline?: () => void;
+  // Recipient and document data for merge fields
+  mergeData?: MergeData;
   isReadOnly?: boolean;
 }
 
@@ -54,32 +164,70 @@ export function PDFSigningInterface({
   pdfUrl,
   onSaveDraft,
   onSubmit,
+  onDecline,
+  mergeData,
   isReadOnly = false,
 }: PDFSigningInterfaceProps) {
   const [numPages, setNumPages] = useState(0);
   const [pageNumber, setPageNumber] = useState(1);
   const [scale, setScale] = useState(1.0);
   const [mode, setMode] = useState<'none' | 'text' | 'signature'>('none');
-  const [textFields, setTextFields] = useState<TextField[]>([]);
-  const [signatures, setSignatures] = useState<Signature[]>([]);
+  // Placed text fields and signatures share one undo/redo history
+  const {
+    state: workspace,
+    set: setWorkspace,
+    undo,
+    redo,
+    reset: resetWorkspace,
+    canUndo,
+    canRedo,
+  } = useHistory<SigningWorkspace>({ textFields: [], signatures: [] });
+  const { textFields, signatures } = workspace;
+  const [assignedFields, setAssignedFields] = useState<DocumentField[]>([]);
   const [activeField, setActiveField] = useState<string | null>(null);
   const [fullName, setFullName] = useState('');
   const [signatureImage, setSignatureImage] = useState<string | null>(null);
-  const [isDrawing, setIsDrawing] = useState(false);
+  // Stroke data for the selected signature image, when it was drawn rather than uploaded
+  const [signatureStrokeData, setSignatureStrokeData] = useState<SignatureStrokeData | undefined>(undefined);
+  const [signatureTab, setSignatureTab] = useState<'draw' | 'type' | 'upload'>('draw');
+  const [signatureFont, setSignatureFont] = useState(SIGNATURE_FONTS[0].family);
+  const [savedSignatures, setSavedSignatures] = useState<SavedSignature[]>([]);
   const [draftData, setDraftData] = useState<any>(null);
   const [pdfReady, setPdfReady] = useState(false);
-  const [workerReady, setWorkerReady] = useState(false);
-  const pageRefs = useRef<{ [key: number]: HTMLDivElement | null }>({});
+  const [pdfDocument, setPdfDocument] = useState<LoadedDocument | null>(null);
+  const [draftLoaded, setDraftLoaded] = useState(false);
+  const [draftStatus, setDraftStatus] = useState<DraftStatus>('idle');
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(0);
+  const [autosaveRetry, setAutosaveRetry] = useState(0);
+  const [draftConflict, setDraftConflict] = useState<DraftConflict | null>(null);
+  const [announcement, setAnnouncement] = useState('');
+  // Required field the guided flow last took the signer to; null until the guide is started
+  const [guideFieldId, setGuideFieldId] = useState<string | null>(null);
+  // Date merge fields use the day the document was opened
+  const [openedAt] = useState(() => new Date());
+  const [snapEnabled, setSnapEnabled] = useState(true);
+  // Shift+click builds a multi-selection for the align/distribute commands
+  const [selectedFieldIds, setSelectedFieldIds] = useState<string[]>([]);
+  const [activeGuides, setActiveGuides] = useState<{ page: number; guides: SnapGuide[] } | null>(null);
+  const [textBaselines, setTextBaselines] = useState<Record<number, number[]>>({});
+  // Page boxes and rotation, needed to convert between PDF points and what's on screen
+  const [pageGeometry, setPageGeometry] = useState<PageGeometryMap | null>(null);
+  const [finalPreviewUrl, setFinalPreviewUrl] = useState<string | null>(null);
+  const [generatingPreview, setGeneratingPreview] = useState(false);
+  const viewerRef = useRef<PDFViewerHandle | null>(null);
+  // Set when a field is placed from the keyboard so focus follows it onto the page
+  const focusActiveFieldRef = useRef(false);
+  // Serialized payload last accepted by the server; null means "take the next state as the baseline"
+  const lastSavedPayloadRef = useRef<string | null>(null);
+  const latestPayloadRef = useRef<SigningDraftPayload | null>(null);
+  const lastChangeAtRef = useRef(0);
+  // Server's updated_at for the draft this tab last loaded or saved; never the local clock
+  const serverSavedAtRef = useRef(0);
+  const savingRef = useRef(false);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const signatureCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const signaturePadRef = useRef<SignaturePadHandle | null>(null);
   
-  // Memoize PDF.js options to prevent unnecessary reloads
-  const pdfOptions = useMemo(() => ({
-    cMapUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/cmaps/`,
-    cMapPacked: true,
-    standardFontDataUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/standard_fonts/`,
-  }), []);
-
   const DEFAULT_TEXT_WIDTH = 200;
   const DEFAULT_TEXT_HEIGHT = 30;
   const DEFAULT_TEXT_FONT_SIZE = 14;
@@ -90,98 +238,285 @@ export function PDFSigningInterface({
   const MIN_SIGNATURE_WIDTH = 80; // Minimum width
   const MIN_SIGNATURE_HEIGHT = 30; // Minimum height
 
+  // Drafts store PDF points, so they can only be placed once the page geometry is known
   useEffect(() => {
+    if (!pageGeometry) return;
     loadDraft();
-  }, [documentId]);
+  }, [documentId, pageGeometry]);
 
-  // Ensure PDF.js worker is properly initialized and verified - run once on mount
   useEffect(() => {
-    const initializeWorker = async () => {
-      // Set worker source
-      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-      console.log('📄 PDF.js Worker URL set:', pdfjs.GlobalWorkerOptions.workerSrc);
-      
-      // Verify worker file is accessible
-      try {
-        const response = await fetch(WORKER_URL, { method: 'HEAD' });
-        if (response.ok) {
-          console.log('✅ PDF.js worker file is accessible');
-          setWorkerReady(true);
-        } else {
-          console.error('❌ PDF.js worker file not accessible:', response.status);
-          // Still try to proceed - worker might load anyway
-          setWorkerReady(true);
-        }
-      } catch (error) {
-        console.error('❌ Failed to verify worker file:', error);
-        // Still try to proceed - worker might load anyway
-        setWorkerReady(true);
+    if (isReadOnly) return;
+    loadSavedSignatures()
+      .then(setSavedSignatures)
+      .catch((error) => console.log('No saved signatures available:', error));
+  }, [isReadOnly]);
+
+  // Ctrl+Z / Ctrl+Shift+Z (or Ctrl+Y). Other inputs such as the name box keep their native undo.
+  useEffect(() => {
+    if (isReadOnly) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      const target = e.target as HTMLElement;
+      const isEditable = target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+      if (isEditable && !target.closest('[data-workspace-field]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        redo();
       }
     };
-    
-    initializeWorker();
-  }, []);
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [isReadOnly, undo, redo]);
+
+  useEffect(() => {
+    if (!focusActiveFieldRef.current || !activeField) return;
+    const element = document.querySelector<HTMLElement>(`[data-field-id="${activeField}"]`);
+    if (element) {
+      focusActiveFieldRef.current = false;
+      element.focus();
+    }
+  }, [activeField, workspace]);
 
   const loadDraft = async () => {
+    setDraftLoaded(false);
+    let serverDraft: ServerDraft | null = null;
     try {
       const response = await api.get(`/signing/${documentId}/draft`);
-      const data = response.data;
-      
-      if (data.textFields && data.textFields.length > 0) {
-        setTextFields(data.textFields.map((tf: any) => ({
+      serverDraft = response.data;
+    } catch (error) {
+      console.log('No draft found or error loading draft');
+    }
+
+    let localDraft: LocalDraft | null = null;
+    try {
+      localDraft = await loadLocalDraft(documentId);
+    } catch (error) {
+      console.warn('Local draft storage unavailable:', error);
+    }
+
+    const serverSavedAt = getDraftTimestamp(serverDraft);
+    serverSavedAtRef.current = serverSavedAt;
+
+    if (localDraft && !localDraft.synced) {
+      if (serverSavedAt > localDraft.savedAt) {
+        // Both copies changed since they were last in sync - let the user pick
+        setDraftConflict({ local: localDraft, server: serverDraft, serverSavedAt });
+        return;
+      }
+      // Edits that never reached the server (e.g. made offline) win and are pushed on the next autosave
+      await applyDraft(localDraft.payload, true);
+      return;
+    }
+
+    await applyDraft(serverDraft);
+  };
+
+  // Replace the workspace with a draft. `unsaved` marks it as not on the server yet so autosave pushes it.
+  // Drafts saved before geometry was stored in PDF points are migrated here and saved back.
+  const applyDraft = async (data: ServerDraft | null, unsaved = false) => {
+    const geometry = pageGeometry;
+    if (!geometry) return;
+
+    let migrated = false;
+    const toViewUnits = <T extends FieldRect>(item: T): T => {
+      const result = fromStoredRect(item, geometry);
+      migrated = migrated || result.migrated;
+      return result.field;
+    };
+
+    let draftTextFields: TextField[] = [];
+    let draftSignatures: Signature[] = [];
+    try {
+      if (data?.textFields && data.textFields.length > 0) {
+        draftTextFields = data.textFields.map((tf: any) => toViewUnits({
           ...tf,
           id: tf.id?.toString() || `text-${Date.now()}-${Math.random()}`,
-        })));
+        }));
       }
       
-      if (data.signatures && data.signatures.length > 0) {
-        const sigsWithUrls = await Promise.all(
+      if (data?.signatures && data.signatures.length > 0) {
+        draftSignatures = await Promise.all(
           data.signatures.map(async (sig: any) => {
             const imageUrl = await loadSignatureImage(sig.signature_image_path);
-            return {
+            return toViewUnits({
               ...sig,
               id: sig.id?.toString() || `sig-${Date.now()}-${Math.random()}`,
               imageUrl,
-            };
+              stroke_data: parseStrokeData(sig.stroke_data),
+            });
           })
         );
-        setSignatures(sigsWithUrls);
       }
     } catch (error) {
-      console.log('No draft found or error loading draft');
+      console.log('Error loading draft signatures:', error);
     }
+
+    const fields = await fetchAssignedFields((data?.fields || []) as SavedFieldValue[], geometry);
+
+    lastSavedPayloadRef.current = unsaved || migrated ? '' : null;
+    // A freshly loaded draft starts a new history - undo shouldn't step back into another document
+    resetWorkspace({ textFields: draftTextFields, signatures: draftSignatures });
+    // Submitted values are final, so merge data is only applied while signing
+    setAssignedFields(isReadOnly || !mergeData ? fields : applyMergeValues(fields, mergeData, openedAt));
+    setDraftLoaded(true);
   };
 
-  const loadSignatureImage = async (path: string): Promise<string> => {
+  const resolveDraftConflict = async (keep: 'local' | 'server') => {
+    if (!draftConflict) return;
+    const { local, server, serverSavedAt } = draftConflict;
+    setDraftConflict(null);
+    serverSavedAtRef.current = serverSavedAt;
+
+    if (keep === 'local') {
+      await applyDraft(local.payload, true);
+    } else {
+      await deleteLocalDraft(documentId).catch((error) => console.warn('Could not clear local draft:', error));
+      await applyDraft(server);
+    }
+  };
+
+  // Load the fields the sender placed for this recipient, merging any values saved in a draft
+  const fetchAssignedFields = async (
+    savedValues: SavedFieldValue[],
+    geometry: PageGeometryMap
+  ): Promise<DocumentField[]> => {
     try {
-      // Extract just the filename from the path (handles both / and \ separators)
-      let filename = path;
-      if (path.includes('/')) {
-        filename = path.split('/').pop() || path;
-      } else if (path.includes('\\')) {
-        filename = path.split('\\').pop() || path;
-      }
-      
-      // Remove any leading path components that might be in the filename
-      filename = filename.replace(/^.*[\/\\]/, '');
-      
-      console.log('Loading signature image:', { originalPath: path, extractedFilename: filename });
-      
-      const response = await api.get(`/signing/signatures/${filename}`, {
-        responseType: 'blob',
-      });
-      return URL.createObjectURL(response.data);
+      const response = await api.get(`/signing/${documentId}/fields`);
+      return await Promise.all(
+        (response.data.fields || []).map(async (field: AssignedFieldRow) => {
+          const id = field.id.toString();
+          const saved = savedValues.find(v => v.id?.toString() === id);
+          const value = saved?.value ?? field.value ?? '';
+          const isImageField = field.field_type === 'signature' || field.field_type === 'initials';
+          return {
+            ...fromStoredRect(field, geometry).field,
+            id,
+            required: !!field.required,
+            locked: !!field.locked,
+            value,
+            imageUrl: isImageField && value ? await loadSignatureImage(value) : undefined,
+            stroke_data: parseStrokeData(saved ? saved.stroke_data : field.stroke_data),
+          };
+        })
+      );
     } catch (error) {
-      console.error('Failed to load signature image:', error);
-      console.error('Path was:', path);
-      return '';
+      console.log('No sender-defined fields for this document');
+      return [];
     }
   };
 
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
+  const saveDraftToServer = useCallback(async (payload: SigningDraftPayload, serialized: string) => {
+    setDraftStatus('saving');
+    savingRef.current = true;
+    try {
+      const response = await api.post(`/signing/${documentId}/draft`, payload);
+      const savedAt = Date.now();
+      lastSavedPayloadRef.current = serialized;
+      const serverSavedAt = getDraftTimestamp(response.data);
+      if (serverSavedAt) serverSavedAtRef.current = serverSavedAt;
+      setLastSavedAt(savedAt);
+      setNow(savedAt);
+      setDraftStatus('saved');
+
+      // Don't mark the local copy synced if newer edits were made while the request was in flight
+      if (latestPayloadRef.current === payload) {
+        saveLocalDraft({ documentId, payload, savedAt, synced: true })
+          .catch((error) => console.warn('Could not update local draft:', error));
+      }
+      return true;
+    } catch (error) {
+      console.error('Autosave failed, keeping local copy:', error);
+      setDraftStatus('offline');
+      return false;
+    } finally {
+      savingRef.current = false;
+    }
+  }, [documentId]);
+
+  // Keep a local copy on every change and autosave to the server once editing pauses
+  useEffect(() => {
+    if (isReadOnly || !draftLoaded || !pageGeometry) return;
+
+    const payload = buildDraftPayload(textFields, signatures, assignedFields, pageGeometry);
+    const serialized = JSON.stringify(payload);
+    latestPayloadRef.current = payload;
+
+    if (lastSavedPayloadRef.current === null) {
+      lastSavedPayloadRef.current = serialized;
+      return;
+    }
+    if (serialized === lastSavedPayloadRef.current) return;
+
+    lastChangeAtRef.current = Date.now();
+    saveLocalDraft({ documentId, payload, savedAt: lastChangeAtRef.current, synced: false })
+      .catch((error) => console.warn('Could not keep a local draft copy:', error));
+
+    const timer = setTimeout(() => saveDraftToServer(payload, serialized), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [documentId, isReadOnly, draftLoaded, pageGeometry, textFields, signatures, assignedFields, autosaveRetry, saveDraftToServer]);
+
+  // Retry a failed autosave as soon as the connection comes back
+  useEffect(() => {
+    const handleOnline = () => setAutosaveRetry(count => count + 1);
+    window.addEventListener('online', handleOnline);
+    return () => window.removeEventListener('online', handleOnline);
+  }, []);
+
+  // Keep the "Saved · 2s ago" text current
+  useEffect(() => {
+    if (lastSavedAt === null) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [lastSavedAt]);
+
+  // When returning to this tab, check whether the draft was saved from somewhere else meanwhile
+  useEffect(() => {
+    if (isReadOnly || !draftLoaded) return;
+
+    const handleVisibilityChange = async () => {
+      // A save from this tab still in flight would show up as a newer draft from elsewhere
+      if (document.visibilityState !== 'visible' || !latestPayloadRef.current || savingRef.current) return;
+      try {
+        const response = await api.get(`/signing/${documentId}/draft`);
+        const serverSavedAt = getDraftTimestamp(response.data);
+        if (!savingRef.current && serverSavedAt > serverSavedAtRef.current) {
+          setDraftConflict({
+            local: {
+              documentId,
+              payload: latestPayloadRef.current,
+              savedAt: lastChangeAtRef.current || serverSavedAtRef.current,
+              synced: false,
+            },
+            server: response.data,
+            serverSavedAt,
+          });
+        }
+      } catch (error) {
+        console.log('Could not check for a newer draft:', error);
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, [documentId, isReadOnly, draftLoaded]);
+
+  const onDocumentLoadSuccess = (pdf: LoadedDocument, geometry: PageGeometryMap) => {
+    setNumPages(pdf.numPages);
+    setPdfDocument(pdf);
     setPdfReady(true);
-    console.log('✅ PDF document loaded successfully, ready for interactions');
+    setPageGeometry(geometry);
+  };
+
+  // The page indicator follows scrolling, so navigation just scrolls the viewer
+  const goToPage = (page: number) => {
+    viewerRef.current?.scrollToPage(Math.max(1, Math.min(numPages, page)));
   };
 
   const handlePageClick = (e: React.MouseEvent<HTMLDivElement>, pageNum: number) => {
@@ -215,7 +550,7 @@ export function PDFSigningInterface({
       text_content: fullName || '',
     };
     
-    setTextFields([...textFields, newField]);
+    setWorkspace(prev => ({ ...prev, textFields: [...prev.textFields, newField] }));
     setActiveField(newField.id);
     setMode('none');
   };
@@ -256,51 +591,64 @@ export function PDFSigningInterface({
     });
   };
 
-  const addSignature = async (pageNum: number, x: number, y: number) => {
-    // Ensure worker is initialized before adding signature (prevents null worker errors)
-    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
-      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-      console.log('🔄 Worker reinitialized before adding signature');
+  // Returns the uploaded signature path, uploading the canvas drawing or typed name if needed.
+  // Drawn signatures also return their stroke data so they can be re-rendered as vectors.
+  const resolveSignature = async (): Promise<{ imagePath: string; strokeData?: SignatureStrokeData } | null> => {
+    // The Type tab always uses the typed name, even if an image was selected earlier
+    let imagePath = signatureTab === 'type' ? null : signatureImage;
+    let strokeData = imagePath ? signatureStrokeData : undefined;
+
+    // Typed signatures are rendered to a PNG and go through the same upload as drawn ones
+    if (signatureTab === 'type') {
+      if (!fullName.trim()) {
+        alert('Please enter your full legal name to type a signature');
+        return null;
+      }
+      try {
+        const blob = await renderTypedSignature(fullName.trim(), signatureFont);
+        imagePath = await uploadSignatureBlob(blob);
+      } catch (error) {
+        console.error('Failed to render typed signature:', error);
+      }
+      if (!imagePath) return null;
     }
     
-    let imagePath = signatureImage;
-    
     // If no uploaded image, check if canvas has drawing
-    if (!imagePath && signatureCanvasRef.current) {
-      const canvas = signatureCanvasRef.current;
-      const ctx = canvas.getContext('2d');
+    if (!imagePath && signatureTab === 'draw' && signaturePadRef.current) {
+      const pad = signaturePadRef.current;
       
-      // Check if canvas has any content
-      const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
-      const hasContent = imageData?.data.some((pixel, index) => {
-        // Check alpha channel (every 4th value)
-        return index % 4 === 3 && pixel > 0;
-      });
-      
-      if (hasContent) {
-        // Convert canvas to image
-        const dataUrl = canvas.toDataURL('image/png');
-        try {
-          const blob = await (await fetch(dataUrl)).blob();
-          const formData = new FormData();
-          formData.append('signature', blob, 'signature.png');
-          
-          const response = await api.post('/signing/signature/upload', formData, {
-            headers: { 'Content-Type': 'multipart/form-data' },
-          });
-          imagePath = response.data.signature_path;
-        } catch (error) {
-          console.error('Failed to upload signature:', error);
-          return;
-        }
+      if (!pad.isEmpty()) {
+        // Convert canvas to image, keeping the strokes alongside the PNG
+        strokeData = pad.getStrokeData();
+        imagePath = await uploadSignatureBlob(await pad.toBlob(), strokeData);
+        if (!imagePath) return null;
       }
     }
     
     if (!imagePath) {
       alert('Please create or upload a signature first');
-      return;
+      return null;
+    }
+
+    return { imagePath, strokeData };
+  };
+
+  const clearSignatureCanvas = () => {
+    signaturePadRef.current?.clear();
+  };
+
+  // Resolves to whether a signature was placed
+  const addSignature = async (pageNum: number, x: number, y: number): Promise<boolean> => {
+    // Ensure worker is initialized before adding signature (prevents null worker errors)
+    if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+      console.log('🔄 Worker reinitialized before adding signature');
     }
     
+    const resolved = await resolveSignature();
+    if (!resolved) return false;
+    const { imagePath, strokeData } = resolved;
+    
     const imageUrl = await loadSignatureImage(imagePath);
     
     // Get auto-calculated dimensions based on actual image size
@@ -325,73 +673,306 @@ export function PDFSigningInterface({
       height: signatureHeight,
       signature_image_path: imagePath,
       imageUrl,
+      stroke_data: strokeData,
     };
     
     // Use functional update to prevent stale closure issues
-    setSignatures(prev => [...prev, newSignature]);
+    setWorkspace(prev => ({ ...prev, signatures: [...prev.signatures, newSignature] }));
     setMode('none');
     setActiveField(newSignature.id);
     
     // Clear canvas after placing signature
-    if (signatureCanvasRef.current) {
-      const canvas = signatureCanvasRef.current;
-      const ctx = canvas.getContext('2d');
-      if (ctx) {
-        ctx.clearRect(0, 0, canvas.width, canvas.height);
-      }
-    }
+    clearSignatureCanvas();
+    return true;
   };
 
-  const updateTextField = (id: string, updates: Partial<TextField>) => {
-    setTextFields(textFields.map(field => 
+  const updateAssignedField = (id: string, updates: Partial<DocumentField>) => {
+    setAssignedFields(prev => prev.map(field =>
       field.id === id ? { ...field, ...updates } : field
     ));
   };
 
-  const updateSignature = (id: string, updates: Partial<Signature>) => {
-    setSignatures(signatures.map(sig => 
-      sig.id === id ? { ...sig, ...updates } : sig
-    ));
+  // Fill a sender-defined signature or initials field with the current signature
+  const fillSignatureField = async (field: DocumentField) => {
+    // Initials fields use the saved default initials unless a signature was picked explicitly
+    const defaultInitials = savedSignatures.find(sig => sig.kind === 'initials' && sig.is_default);
+    const resolved = field.field_type === 'initials' && defaultInitials && !signatureImage
+      ? { imagePath: defaultInitials.signature_image_path, strokeData: parseStrokeData(defaultInitials.stroke_data) }
+      : await resolveSignature();
+    if (!resolved) return;
+
+    const imageUrl = await loadSignatureImage(resolved.imagePath);
+    updateAssignedField(field.id, { value: resolved.imagePath, imageUrl, stroke_data: resolved.strokeData });
+    clearSignatureCanvas();
+  };
+
+  // Updates sharing a merge key (typing, a resize drag) are undone as a single step
+  const updateTextField = (id: string, updates: Partial<TextField>, mergeKey?: string) => {
+    setWorkspace(prev => ({
+      ...prev,
+      textFields: prev.textFields.map(field =>
+        field.id === id ? { ...field, ...updates } : field
+      ),
+    }), mergeKey);
+  };
+
+  const updateSignature = (id: string, updates: Partial<Signature>, mergeKey?: string) => {
+    setWorkspace(prev => ({
+      ...prev,
+      signatures: prev.signatures.map(sig =>
+        sig.id === id ? { ...sig, ...updates } : sig
+      ),
+    }), mergeKey);
   };
 
   const deleteField = (id: string, type: 'text' | 'signature') => {
     if (type === 'text') {
-      setTextFields(textFields.filter(f => f.id !== id));
+      setWorkspace(prev => ({ ...prev, textFields: prev.textFields.filter(f => f.id !== id) }));
     } else {
-      setSignatures(signatures.filter(s => s.id !== id));
+      setWorkspace(prev => ({ ...prev, signatures: prev.signatures.filter(s => s.id !== id) }));
     }
   };
 
-  const handleSaveDraft = async () => {
+  const moveField = (id: string, type: 'text' | 'signature', dx: number, dy: number) => {
+    const move = <T extends { x_coordinate: number; y_coordinate: number }>(field: T): T => ({
+      ...field,
+      x_coordinate: Math.max(0, field.x_coordinate + dx),
+      y_coordinate: Math.max(0, field.y_coordinate + dy),
+    });
+    // Repeated nudges of the same field undo as one step
+    setWorkspace(prev => type === 'text'
+      ? { ...prev, textFields: prev.textFields.map(f => f.id === id ? move(f) : f) }
+      : { ...prev, signatures: prev.signatures.map(sig => sig.id === id ? move(sig) : sig) },
+    `nudge-${id}`);
+  };
+
+  // Keys on a focused field: arrows nudge, Delete removes, Enter edits text, Escape deselects
+  const handleFieldKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, id: string, type: 'text' | 'signature') => {
+    // Keys typed inside the text input belong to the input
+    if (isReadOnly || e.target !== e.currentTarget) return;
+
+    const field = type === 'text' ? textFields.find(f => f.id === id) : signatures.find(sig => sig.id === id);
+    if (!field) return;
+    const kind = type === 'text' ? 'Text field' : 'Signature';
+    const step = e.shiftKey ? NUDGE_STEP_LARGE : NUDGE_STEP;
+    const deltas: Record<string, [number, number]> = {
+      ArrowLeft: [-step, 0],
+      ArrowRight: [step, 0],
+      ArrowUp: [0, -step],
+      ArrowDown: [0, step],
+    };
+
+    if (deltas[e.key]) {
+      e.preventDefault();
+      const [dx, dy] = deltas[e.key];
+      moveField(id, type, dx, dy);
+      setAnnouncement(`Moved to ${Math.round(Math.max(0, field.x_coordinate + dx))}, ${Math.round(Math.max(0, field.y_coordinate + dy))}`);
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault();
+      deleteField(id, type);
+      setActiveField(null);
+      setAnnouncement(`${kind} on page ${field.page_number} deleted`);
+      viewerRef.current?.getScrollContainer()?.focus();
+    } else if (e.key === 'Enter' && type === 'text') {
+      e.preventDefault();
+      e.currentTarget.querySelector('input')?.focus();
+    } else if (e.key === 'Escape') {
+      setActiveField(null);
+    }
+  };
+
+  const getPlacedFieldBoxes = (pageNum: number): FieldBox[] => [
+    ...textFields.filter(tf => tf.page_number === pageNum).map(toFieldBox),
+    ...signatures.filter(sig => sig.page_number === pageNum).map(toFieldBox),
+  ];
+
+  // Snap a field being dragged against everything else on its page, and show the guides it hit
+  const handleFieldDrag = (
+    id: string,
+    pageNum: number,
+    size: { width: number; height: number },
+    position: { x: number; y: number }
+  ) => {
+    if (!snapEnabled) return;
+    const others = [
+      ...getPlacedFieldBoxes(pageNum),
+      ...assignedFields.filter(field => field.page_number === pageNum).map(toFieldBox),
+    ].filter(box => box.id !== id);
+    const snapped = snapFieldPosition(
+      { id, x: position.x / scale, y: position.y / scale, ...size },
+      others,
+      textBaselines[pageNum] || [],
+      true
+    );
+    setActiveGuides({ page: pageNum, guides: snapped.guides });
+    return { x: snapped.x * scale, y: snapped.y * scale };
+  };
+
+  const loadTextBaselines = async (pageNum: number, page: Parameters<typeof getTextBaselines>[0]) => {
+    if (textBaselines[pageNum]) return;
     try {
-      await api.post(`/signing/${documentId}/draft`, {
-        textFields: textFields.map(tf => ({
-          page_number: tf.page_number,
-          x_coordinate: tf.x_coordinate,
-          y_coordinate: tf.y_coordinate,
-          width: tf.width,
-          height: tf.height,
-          font_size: tf.font_size,
-          text_content: tf.text_content,
-        })),
-        signatures: signatures.map(sig => ({
-          page_number: sig.page_number,
-          x_coordinate: sig.x_coordinate,
-          y_coordinate: sig.y_coordinate,
-          width: sig.width,
-          height: sig.height,
-          signature_image_path: sig.signature_image_path,
-        })),
+      const baselines = await getTextBaselines(page);
+      setTextBaselines(prev => ({ ...prev, [pageNum]: baselines }));
+    } catch (error) {
+      console.warn(`Could not read text positions on page ${pageNum}:`, error);
+    }
+  };
+
+  const getPlacedFieldPage = (id: string) =>
+    [...textFields, ...signatures].find(field => field.id === id)?.page_number;
+
+  const handleFieldClick = (e: React.MouseEvent, id: string) => {
+    e.stopPropagation();
+    if (e.shiftKey && !isReadOnly) {
+      setSelectedFieldIds(prev => {
+        const current = prev.length === 0 && activeField && activeField !== id ? [activeField] : prev;
+        // Align and distribute work within one page, so a field on another page starts a new selection
+        if (current.length > 0 && getPlacedFieldPage(current[0]) !== getPlacedFieldPage(id)) {
+          return [id];
+        }
+        return current.includes(id) ? current.filter(selected => selected !== id) : [...current, id];
       });
-      
-      alert('Draft saved successfully');
+    } else {
+      setSelectedFieldIds([]);
+    }
+    setActiveField(id);
+  };
+
+  // Grouped by the first selected field's page rather than the page scrolled into view
+  const selectionPage = selectedFieldIds.map(getPlacedFieldPage).find(page => page !== undefined);
+  const selectedBoxes = selectionPage === undefined
+    ? []
+    : getPlacedFieldBoxes(selectionPage).filter(box => selectedFieldIds.includes(box.id));
+
+  // Moves several fields at once as a single undo step
+  const applyFieldPositions = (positions: Record<string, { x: number; y: number }>) => {
+    const move = <T extends { id: string; x_coordinate: number; y_coordinate: number }>(field: T): T =>
+      positions[field.id] ? { ...field, x_coordinate: positions[field.id].x, y_coordinate: positions[field.id].y } : field;
+    setWorkspace(prev => ({
+      textFields: prev.textFields.map(move),
+      signatures: prev.signatures.map(move),
+    }));
+  };
+
+  const handleAlign = (command: AlignCommand) => {
+    applyFieldPositions(alignFields(selectedBoxes, command));
+  };
+
+  const handleDistribute = (axis: DistributeAxis) => {
+    applyFieldPositions(distributeFields(selectedBoxes, axis));
+  };
+
+  // Keyboard alternative to clicking the page: drop the field in the middle of the visible area
+  const placeAtViewportCenter = async () => {
+    const pageElement = viewerRef.current?.getPageElement(pageNumber);
+    const viewer = viewerRef.current?.getScrollContainer();
+    if (!pageElement || !viewer || mode === 'none' || !pdfReady) return;
+
+    const pageRect = pageElement.getBoundingClientRect();
+    const viewRect = viewer.getBoundingClientRect();
+    const visibleLeft = Math.max(pageRect.left, viewRect.left);
+    const visibleRight = Math.min(pageRect.right, viewRect.right);
+    const visibleTop = Math.max(pageRect.top, viewRect.top);
+    const visibleBottom = Math.min(pageRect.bottom, viewRect.bottom);
+    const centerX = ((visibleLeft + visibleRight) / 2 - pageRect.left) / scale;
+    const centerY = ((visibleTop + visibleBottom) / 2 - pageRect.top) / scale;
+
+    focusActiveFieldRef.current = true;
+    if (mode === 'text') {
+      addTextField(pageNumber, Math.max(0, centerX - DEFAULT_TEXT_WIDTH / 2), Math.max(0, centerY - DEFAULT_TEXT_HEIGHT / 2));
+      setAnnouncement(`Text field placed on page ${pageNumber}. Use arrow keys to move it.`);
+    } else {
+      // Announced only once the upload has worked; a failure is reported by its own alert
+      const placed = await addSignature(pageNumber, Math.max(0, centerX - DEFAULT_SIGNATURE_WIDTH / 2), Math.max(0, centerY - DEFAULT_SIGNATURE_HEIGHT / 2));
+      if (placed) {
+        setAnnouncement(`Signature placed on page ${pageNumber}. Use arrow keys to move it.`);
+      }
+    }
+  };
+
+  const requiredFields = sortInDocumentOrder(assignedFields.filter(field => field.required));
+  const completedRequiredCount = requiredFields.filter(field => isFieldComplete(field)).length;
+  const guideComplete = completedRequiredCount === requiredFields.length;
+
+  // Guided flow: takes the signer to the next unfinished required field in document order
+  const goToNextRequiredField = () => {
+    const currentIndex = requiredFields.findIndex(field => field.id === guideFieldId);
+    const next = [...requiredFields.slice(currentIndex + 1), ...requiredFields.slice(0, currentIndex + 1)]
+      .find(field => !isFieldComplete(field));
+    if (!next) {
+      setGuideFieldId(null);
+      setAnnouncement('All required fields are complete. You can now submit the document.');
+      return;
+    }
+
+    setGuideFieldId(next.id);
+    setActiveField(next.id);
+    // Every page keeps its field overlay even when not rendered, so the element is always there
+    const element = document.querySelector<HTMLElement>(`[data-assigned-field-id="${next.id}"]`);
+    element?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+    element?.querySelector<HTMLElement>('input, button')?.focus({ preventScroll: true });
+    const label = next.label || getFieldTypeLabel(next.field_type);
+    setAnnouncement(`${label}, page ${next.page_number}. ${completedRequiredCount} of ${requiredFields.length} completed.`);
+  };
+
+  // Saves immediately instead of waiting for the autosave delay
+  const handleSaveDraft = async () => {
+    if (!pageGeometry) return;
+    const payload = buildDraftPayload(textFields, signatures, assignedFields, pageGeometry);
+    if (await saveDraftToServer(payload, JSON.stringify(payload))) {
       onSaveDraft();
+    }
+  };
+
+  // Burns everything into a copy of the PDF in the browser, the same way the server will on submit
+  const handlePreviewFinal = async () => {
+    if (!pageGeometry) return;
+    setGeneratingPreview(true);
+    try {
+      const pdfBytes = await (await fetch(pdfUrl)).arrayBuffer();
+      const filledFields = assignedFields.filter(field => isFieldComplete(field));
+      const flattened = await flattenSignedPdf(pdfBytes, {
+        texts: [
+          ...textFields.map(tf => ({ ...tf, text: tf.text_content })),
+          ...filledFields
+            .filter(field => field.field_type === 'date' || field.field_type === 'name' || field.field_type === 'text')
+            .map(field => ({ ...field, text: field.value || '', font_size: DEFAULT_TEXT_FONT_SIZE })),
+        ],
+        images: [
+          ...signatures.filter(sig => sig.imageUrl).map(sig => ({ ...sig, imageUrl: sig.imageUrl! })),
+          ...filledFields
+            .filter(field => field.imageUrl)
+            .map(field => ({ ...field, imageUrl: field.imageUrl! })),
+        ],
+        checkmarks: filledFields.filter(field => field.field_type === 'checkbox'),
+      }, pageGeometry);
+      setFinalPreviewUrl(URL.createObjectURL(new Blob([flattened as BlobPart], { type: 'application/pdf' })));
     } catch (error: any) {
-      alert(error.response?.data?.error || 'Failed to save draft');
+      console.error('❌ Failed to build final preview:', error);
+      alert(`Failed to build the final preview: ${error.message || 'Unknown error'}`);
+    } finally {
+      setGeneratingPreview(false);
+    }
+  };
+
+  const closeFinalPreview = () => {
+    if (finalPreviewUrl) {
+      URL.revokeObjectURL(finalPreviewUrl);
     }
+    setFinalPreviewUrl(null);
   };
 
   const handleSubmit = async () => {
+    if (!pageGeometry) return;
+    const incompleteFields = assignedFields.filter(f => f.required && !isFieldComplete(f));
+    if (incompleteFields.length > 0) {
+      const first = incompleteFields[0];
+      goToPage(first.page_number);
+      setActiveField(first.id);
+      alert(`Please complete all required fields before submitting. ${incompleteFields.length} required field(s) remaining, starting on page ${first.page_number}.`);
+      return;
+    }
+
     if (!confirm('Are you sure you want to submit? The document will become read-only and the sender will be notified.')) {
       return;
     }
@@ -401,27 +982,13 @@ export function PDFSigningInterface({
       console.log('   Text fields:', textFields.length);
       console.log('   Signatures:', signatures.length);
       
-      const response = await api.post(`/signing/${documentId}/submit`, {
-        textFields: textFields.map(tf => ({
-          page_number: tf.page_number,
-          x_coordinate: tf.x_coordinate,
-          y_coordinate: tf.y_coordinate,
-          width: tf.width,
-          height: tf.height,
-          font_size: tf.font_size,
-          text_content: tf.text_content,
-        })),
-        signatures: signatures.map(sig => ({
-          page_number: sig.page_number,
-          x_coordinate: sig.x_coordinate,
-          y_coordinate: sig.y_coordinate,
-          width: sig.width,
-          height: sig.height,
-          signature_image_path: sig.signature_image_path,
-        })),
-      });
+      const response = await api.post(
+        `/signing/${documentId}/submit`,
+        buildDraftPayload(textFields, signatures, assignedFields, pageGeometry)
+      );
       
       console.log('✅ Document submitted successfully:', response.data);
+      await deleteLocalDraft(documentId).catch((error) => console.warn('Could not clear local draft:', error));
       alert('Document signed successfully! The sender has been notified and can now preview the signed document.');
       onSubmit();
     } catch (error: any) {
@@ -433,122 +1000,19 @@ export function PDFSigningInterface({
     }
   };
 
-  useEffect(() => {
-    // Setup canvas for drawing
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-    
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    
-    // Set canvas drawing properties
-    ctx.strokeStyle = '#000000';
-    ctx.lineWidth = 2;
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    let drawing = false;
-    
-    const handleMouseDown = (e: MouseEvent) => {
-      e.preventDefault();
-      drawing = true;
-      
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      
-      ctx.beginPath();
-      ctx.moveTo(x, y);
-      setIsDrawing(true);
-    };
-    
-    const handleMouseMove = (e: MouseEvent) => {
-      if (!drawing) return;
-      
-      e.preventDefault();
-      const rect = canvas.getBoundingClientRect();
-      const x = e.clientX - rect.left;
-      const y = e.clientY - rect.top;
-      
-      ctx.lineTo(x, y);
-      ctx.stroke();
-    };
-    
-    const handleMouseUp = () => {
-      drawing = false;
-      setIsDrawing(false);
-    };
-    
-    const handleMouseLeave = () => {
-      drawing = false;
-      setIsDrawing(false);
-    };
-    
-    canvas.addEventListener('mousedown', handleMouseDown);
-    canvas.addEventListener('mousemove', handleMouseMove);
-    canvas.addEventListener('mouseup', handleMouseUp);
-    canvas.addEventListener('mouseleave', handleMouseLeave);
-    
-    return () => {
-      canvas.removeEventListener('mousedown', handleMouseDown);
-      canvas.removeEventListener('mousemove', handleMouseMove);
-      canvas.removeEventListener('mouseup', handleMouseUp);
-      canvas.removeEventListener('mouseleave', handleMouseLeave);
-    };
-  }, []);
-
   const clearSignature = () => {
-    const canvas = signatureCanvasRef.current;
-    if (!canvas) return;
-    const ctx = canvas.getContext('2d');
-    if (!ctx) return;
-    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    clearSignatureCanvas();
     setSignatureImage(null);
+    setSignatureStrokeData(undefined);
   };
 
   const handleSignatureUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
     
-    // Validate file size (5MB = 5 * 1024 * 1024 bytes)
-    const MAX_FILE_SIZE = 5 * 1024 * 1024; // 5MB
-    if (file.size > MAX_FILE_SIZE) {
-      alert(`File is too large. Maximum size is 5MB. Your file is ${(file.size / (1024 * 1024)).toFixed(2)}MB`);
-      e.target.value = ''; // Clear the input
-      return;
-    }
-    
-    // Validate file type
-    const validTypes = ['image/png', 'image/jpeg', 'image/jpg'];
-    if (!validTypes.includes(file.type)) {
-      alert('Invalid file type. Please upload a PNG or JPEG image.');
-      e.target.value = ''; // Clear the input
-      return;
-    }
-    
-    // Validate image dimensions (optional - check if image is reasonable size)
-    try {
-      const img = new Image();
-      const imageUrl = URL.createObjectURL(file);
-      
-      await new Promise((resolve, reject) => {
-        img.onload = () => {
-          URL.revokeObjectURL(imageUrl);
-          // Check if image dimensions are reasonable (max 2000x2000px)
-          if (img.width > 2000 || img.height > 2000) {
-            reject(new Error(`Image dimensions are too large. Maximum is 2000x2000px. Your image is ${img.width}x${img.height}px`));
-          } else {
-            resolve(null);
-          }
-        };
-        img.onerror = () => {
-          URL.revokeObjectURL(imageUrl);
-          reject(new Error('Failed to load image. Please ensure it is a valid image file.'));
-        };
-        img.src = imageUrl;
-      });
-    } catch (error: any) {
-      alert(error.message || 'Failed to validate image');
+    const validationError = await validateSignatureImage(file);
+    if (validationError) {
+      alert(validationError);
       e.target.value = ''; // Clear the input
       return;
     }
@@ -564,6 +1028,7 @@ export function PDFSigningInterface({
       const imagePath = response.data.signature_path;
       const imageUrl = await loadSignatureImage(imagePath);
       setSignatureImage(imagePath);
+      setSignatureStrokeData(undefined);
       console.log('✅ Signature uploaded successfully:', { size: file.size, path: imagePath });
     } catch (error: any) {
       console.error('❌ Signature upload error:', error);
@@ -572,14 +1037,28 @@ export function PDFSigningInterface({
     }
   };
 
+  const draftStatusText = {
+    idle: 'Changes are saved automatically',
+    saving: 'Saving…',
+    saved: lastSavedAt !== null ? `Saved · ${formatSavedAgo(lastSavedAt, now)}` : 'Saved',
+    offline: 'Offline · changes kept on this device',
+  }[draftStatus];
+
   return (
     <div className="flex h-screen bg-gray-100">
+      <PageThumbnails
+        pdf={pdfDocument}
+        currentPage={pageNumber}
+        onSelect={goToPage}
+        fieldCounts={countFieldsByPage(assignedFields, workspace)}
+      />
+
       {/* Left: PDF Viewer */}
-      <div className="flex-1 overflow-auto p-4">
+      <div className="relative flex-1 flex flex-col min-w-0 px-4 pt-4">
         <div className="mb-4 flex items-center justify-between bg-white p-2 rounded shadow">
           <div className="flex items-center space-x-2">
             <button
-              onClick={() => setPageNumber(Math.max(1, pageNumber - 1))}
+              onClick={() => goToPage(pageNumber - 1)}
               disabled={pageNumber <= 1}
               className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
             >
@@ -589,7 +1068,7 @@ export function PDFSigningInterface({
               Page {pageNumber} of {numPages}
             </span>
             <button
-              onClick={() => setPageNumber(Math.min(numPages, pageNumber + 1))}
+              onClick={() => goToPage(pageNumber + 1)}
               disabled={pageNumber >= numPages}
               className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
             >
@@ -616,263 +1095,420 @@ export function PDFSigningInterface({
             >
               Fit
             </button>
+            {!isReadOnly && (
+              <>
+                <button
+                  onClick={() => setSnapEnabled(!snapEnabled)}
+                  aria-pressed={snapEnabled}
+                  title="Snap fields to the grid, other fields and text lines"
+                  className={`px-3 py-1 rounded ${snapEnabled ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
+                >
+                  Snap
+                </button>
+                <button
+                  onClick={undo}
+                  disabled={!canUndo}
+                  title="Undo (Ctrl+Z)"
+                  className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                >
+                  Undo
+                </button>
+                <button
+                  onClick={redo}
+                  disabled={!canRedo}
+                  title="Redo (Ctrl+Shift+Z)"
+                  className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+                >
+                  Redo
+                </button>
+              </>
+            )}
           </div>
         </div>
 
-        <div className="flex justify-center">
-          <div className="relative">
-            {!workerReady ? (
-              <div className="text-center p-8">
-                <div className="text-lg mb-2">Initializing PDF.js worker...</div>
-                <div className="text-sm text-gray-500">Please wait</div>
-              </div>
-            ) : pdfUrl ? (
-              <Document
-                file={pdfUrl}
-                onLoadSuccess={onDocumentLoadSuccess}
-                onLoadError={(error) => {
-                  console.error('❌ PDF load error:', error);
-                  console.error('Error details:', error.message, error);
-                  
-                  // Check if it's a worker error
-                  if (error.message?.includes('worker') || error.message?.includes('sendWithPromise')) {
-                    console.error('⚠️ PDF.js worker error detected. Attempting to reinitialize...');
-                    // Try to reinitialize the worker
-                    try {
-                      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-                      console.log('🔄 Worker reinitialized');
-                    } catch (reinitError) {
-                      console.error('❌ Failed to reinitialize worker:', reinitError);
-                    }
-                  }
-                  
-                  alert(`Failed to load PDF document: ${error.message || 'Unknown error'}. Please refresh the page and try again.`);
-                }}
-                loading={<div className="text-center p-8">Loading PDF...</div>}
-                error={
-                  <div className="text-center p-8 text-red-600">
-                    <p className="mb-2">Failed to load PDF file.</p>
-                    <button
-                      onClick={() => window.location.reload()}
-                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                    >
-                      Reload Page
-                    </button>
-                  </div>
-                }
-                options={pdfOptions}
+        {!isReadOnly && selectedBoxes.length >= 2 && (
+          <div className="mb-4 flex flex-wrap items-center gap-2 bg-white p-2 rounded shadow text-sm">
+            <span className="text-gray-600">{selectedBoxes.length} fields selected · Align:</span>
+            {ALIGN_COMMANDS.map(({ command, label }) => (
+              <button
+                key={command}
+                onClick={() => handleAlign(command)}
+                className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300"
               >
-                {Array.from({ length: numPages }, (_, index) => index + 1).map((pageNum) => (
-                  <div
-                    key={pageNum}
-                    ref={(el) => {
-                      pageRefs.current[pageNum] = el;
+                {label}
+              </button>
+            ))}
+            <span className="text-gray-600 ml-2">Distribute:</span>
+            <button
+              onClick={() => handleDistribute('horizontal')}
+              disabled={selectedBoxes.length < 3}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Horizontally
+            </button>
+            <button
+              onClick={() => handleDistribute('vertical')}
+              disabled={selectedBoxes.length < 3}
+              className="px-2 py-1 bg-gray-200 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Vertically
+            </button>
+            <button
+              onClick={() => setSelectedFieldIds([])}
+              className="ml-auto px-2 py-1 text-gray-500 hover:text-gray-700"
+            >
+              Clear selection
+            </button>
+          </div>
+        )}
+
+        {pdfUrl ? (
+          <PDFViewer
+            ref={viewerRef}
+            file={pdfUrl}
+            scale={scale}
+            className="flex-1 min-h-0"
+            onLoadSuccess={onDocumentLoadSuccess}
+            onPageChange={setPageNumber}
+            onPageClick={handlePageClick}
+            onPageLoadSuccess={loadTextBaselines}
+            pageStyle={{
+              cursor: mode !== 'none' ? 'crosshair' : 'default',
+              outline: mode === 'signature' ? '2px dashed #3b82f6' : 'none',
+              outlineOffset: mode === 'signature' ? '4px' : '0',
+            }}
+            renderPageOverlay={(pageNum) => (
+              <>
+              {/* Render text fields for this page */}
+              {textFields
+                .filter(tf => tf.page_number === pageNum)
+                .map(tf => (
+                  <Draggable
+                    key={tf.id}
+                    disabled={isReadOnly}
+                    onDrag={(data) => handleFieldDrag(tf.id, pageNum, tf, data)}
+                    onStop={(e, data) => {
+                      setActiveGuides(null);
+                      updateTextField(tf.id, {
+                        x_coordinate: data.x / scale,
+                        y_coordinate: data.y / scale,
+                      });
                     }}
-                    className={`mb-4 ${pageNum !== pageNumber ? 'hidden' : ''}`}
-                    onClick={(e) => handlePageClick(e, pageNum)}
-                    style={{ 
-                      position: 'relative', 
-                      cursor: mode !== 'none' ? 'crosshair' : 'default',
-                      outline: mode === 'signature' ? '2px dashed #3b82f6' : 'none',
-                      outlineOffset: mode === 'signature' ? '4px' : '0',
+                    position={{
+                      x: tf.x_coordinate * scale,
+                      y: tf.y_coordinate * scale,
                     }}
                   >
-                    <Page
-                      key={`page-${pageNum}-${signatures.length}`}
-                      pageNumber={pageNum}
-                      scale={scale}
-                      renderTextLayer={true}
-                      renderAnnotationLayer={true}
-                      onLoadError={(error) => {
-                        console.error(`❌ Error loading page ${pageNum}:`, error);
-                        if (error.message?.includes('worker') || error.message?.includes('sendWithPromise')) {
-                          console.error('⚠️ Page load worker error. Reinitializing worker...');
-                          // Reinitialize worker immediately
-                          pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-                          // Force re-render by updating a state
-                          setPageNumber(prev => prev);
-                        }
+                    <Resizable
+                      width={tf.width * scale}
+                      height={tf.height * scale}
+                      onResize={(_e: any, { size }: { size: { width: number; height: number } }) => {
+                        updateTextField(tf.id, {
+                          width: size.width / scale,
+                          height: size.height / scale,
+                        }, `resize-${tf.id}`);
                       }}
-                      error={
-                        <div className="text-center p-4 text-red-600 bg-red-50 border border-red-200 rounded">
-                          <p>Failed to load page {pageNum}</p>
+                      disabled={isReadOnly}
+                    >
+                      <div
+                        className={`absolute border-2 ${activeField === tf.id ? 'border-blue-500' : 'border-transparent'} ${selectedFieldIds.includes(tf.id) ? 'ring-2 ring-indigo-400' : ''} bg-white bg-opacity-90 p-1 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400`}
+                        tabIndex={0}
+                        role="group"
+                        aria-label={describeFieldPosition('Text field', tf)}
+                        data-field-id={tf.id}
+                        onFocus={() => setActiveField(tf.id)}
+                        onKeyDown={(e) => handleFieldKeyDown(e, tf.id, 'text')}
+                        onClick={(e) => handleFieldClick(e, tf.id)}
+                      >
+                        {activeField === tf.id && !isReadOnly && (
                           <button
-                            onClick={() => {
-                              // Reinitialize worker and retry
-                              pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-                              setPageNumber(prev => prev === pageNum ? prev + 0.1 : prev);
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteField(tf.id, 'text');
                             }}
-                            className="mt-2 px-3 py-1 bg-red-600 text-white rounded text-sm hover:bg-red-700"
+                            aria-label="Delete text field"
+                            className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
                           >
-                            Retry
+                            ×
                           </button>
-                        </div>
-                      }
-                    />
-                
-                {/* Render text fields for this page */}
-                {textFields
-                  .filter(tf => tf.page_number === pageNum)
-                  .map(tf => (
-                    <Draggable
-                      key={tf.id}
-                      disabled={isReadOnly}
-                      onStop={(e, data) => {
-                        updateTextField(tf.id, {
-                          x_coordinate: data.x / scale,
-                          y_coordinate: data.y / scale,
-                        });
-                      }}
-                      position={{
-                        x: tf.x_coordinate * scale,
-                        y: tf.y_coordinate * scale,
+                        )}
+                        <input
+                          type="text"
+                          value={tf.text_content}
+                          onChange={(e) => {
+                            const newText = e.target.value;
+                            // Auto-resize based on text length
+                            const newWidth = Math.max(DEFAULT_TEXT_WIDTH, newText.length * 8);
+                            updateTextField(tf.id, { text_content: newText, width: newWidth }, `text-${tf.id}`);
+                          }}
+                          data-workspace-field
+                          onFocus={() => setActiveField(tf.id)}
+                          onKeyDown={(e) => {
+                            // Escape returns focus to the field so it can be moved again
+                            if (e.key === 'Escape') {
+                              e.currentTarget.closest<HTMLElement>('[data-field-id]')?.focus();
+                            }
+                          }}
+                          aria-label="Text"
+                          disabled={isReadOnly}
+                          className="w-full border-none outline-none bg-transparent"
+                          style={{
+                            fontSize: `${tf.font_size * scale}px`,
+                            width: `${tf.width * scale}px`,
+                            height: `${tf.height * scale}px`,
+                          }}
+                        />
+                      </div>
+                    </Resizable>
+                  </Draggable>
+                ))}
+              
+              {/* Render signatures for this page */}
+              {signatures
+                .filter(sig => sig.page_number === pageNum)
+                .map(sig => (
+                  <Draggable
+                    key={sig.id}
+                    disabled={isReadOnly}
+                    onDrag={(data) => handleFieldDrag(sig.id, pageNum, sig, data)}
+                    onStop={(e, data) => {
+                      setActiveGuides(null);
+                      updateSignature(sig.id, {
+                        x_coordinate: data.x / scale,
+                        y_coordinate: data.y / scale,
+                      });
+                    }}
+                    position={{
+                      x: sig.x_coordinate * scale,
+                      y: sig.y_coordinate * scale,
+                    }}
+                  >
+                    <Resizable
+                      width={sig.width * scale}
+                      height={sig.height * scale}
+                      onResize={(_e: any, { size }: { size: { width: number; height: number } }) => {
+                        // Maintain aspect ratio when resizing
+                        const aspectRatio = sig.width / sig.height;
+                        let newWidth = size.width / scale;
+                        let newHeight = size.height / scale;
+                        
+                        // Determine which dimension changed more (user intent)
+                        const widthChange = Math.abs(newWidth - sig.width);
+                        const heightChange = Math.abs(newHeight - sig.height);
+                        
+                        if (widthChange > heightChange) {
+                          // Width changed more, adjust height to maintain aspect ratio
+                          newHeight = newWidth / aspectRatio;
+                        } else {
+                          // Height changed more, adjust width to maintain aspect ratio
+                          newWidth = newHeight * aspectRatio;
+                        }
+                        
+                        updateSignature(sig.id, {
+                          width: newWidth,
+                          height: newHeight,
+                        }, `resize-${sig.id}`);
                       }}
+                      disabled={isReadOnly}
+                      minConstraints={[MIN_SIGNATURE_WIDTH * scale, MIN_SIGNATURE_HEIGHT * scale]}
+                      maxConstraints={[MAX_SIGNATURE_WIDTH * scale, MAX_SIGNATURE_HEIGHT * scale]}
                     >
-                      <Resizable
-                        width={tf.width * scale}
-                        height={tf.height * scale}
-                        onResize={(_e: any, { size }: { size: { width: number; height: number } }) => {
-                          updateTextField(tf.id, {
-                            width: size.width / scale,
-                            height: size.height / scale,
-                          });
-                        }}
-                        disabled={isReadOnly}
+                      <div
+                        className={`absolute border-2 border-blue-500 ${selectedFieldIds.includes(sig.id) ? 'ring-2 ring-indigo-400' : ''} bg-white bg-opacity-90 focus:outline-none focus-visible:ring-2 focus-visible:ring-blue-400`}
+                        tabIndex={0}
+                        role="group"
+                        aria-label={describeFieldPosition('Signature', sig)}
+                        data-field-id={sig.id}
+                        onFocus={() => setActiveField(sig.id)}
+                        onKeyDown={(e) => handleFieldKeyDown(e, sig.id, 'signature')}
+                        onClick={(e) => handleFieldClick(e, sig.id)}
                       >
-                        <div
-                          className={`absolute border-2 ${activeField === tf.id ? 'border-blue-500' : 'border-transparent'} bg-white bg-opacity-90 p-1`}
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setActiveField(tf.id);
-                          }}
-                        >
-                          {activeField === tf.id && !isReadOnly && (
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteField(tf.id, 'text');
-                              }}
-                              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
-                            >
-                              ×
-                            </button>
-                          )}
-                          <input
-                            type="text"
-                            value={tf.text_content}
-                            onChange={(e) => {
-                              const newText = e.target.value;
-                              updateTextField(tf.id, { text_content: newText });
-                              
-                              // Auto-resize based on text length
-                              const newWidth = Math.max(DEFAULT_TEXT_WIDTH, newText.length * 8);
-                              updateTextField(tf.id, { width: newWidth });
+                        {activeField === sig.id && !isReadOnly && (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              deleteField(sig.id, 'signature');
                             }}
-                            onFocus={() => setActiveField(tf.id)}
-                            disabled={isReadOnly}
-                            className="w-full border-none outline-none bg-transparent"
+                            aria-label="Delete signature"
+                            className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
+                          >
+                            ×
+                          </button>
+                        )}
+                        {sig.stroke_data ? (
+                          <StrokeSignature
+                            data={sig.stroke_data}
+                            width={sig.width * scale}
+                            height={sig.height * scale}
+                          />
+                        ) : sig.imageUrl && (
+                          <img
+                            src={sig.imageUrl}
+                            alt="Signature"
                             style={{
-                              fontSize: `${tf.font_size * scale}px`,
-                              width: `${tf.width * scale}px`,
-                              height: `${tf.height * scale}px`,
+                              width: `${sig.width * scale}px`,
+                              height: `${sig.height * scale}px`,
+                              objectFit: 'contain',
                             }}
                           />
-                        </div>
-                      </Resizable>
-                    </Draggable>
-                  ))}
-                
-                {/* Render signatures for this page */}
-                {signatures
-                  .filter(sig => sig.page_number === pageNum)
-                  .map(sig => (
-                    <Draggable
-                      key={sig.id}
-                      disabled={isReadOnly}
-                      onStop={(e, data) => {
-                        updateSignature(sig.id, {
-                          x_coordinate: data.x / scale,
-                          y_coordinate: data.y / scale,
-                        });
+                        )}
+                      </div>
+                    </Resizable>
+                  </Draggable>
+                ))}
+
+              {/* Render sender-defined fields for this page */}
+              {assignedFields
+                .filter(field => field.page_number === pageNum)
+                .map(field => {
+                  const complete = isFieldComplete(field);
+                  const label = field.label || getFieldTypeLabel(field.field_type);
+                  const ariaLabel = `${label}${field.required ? ', required' : ''}, page ${field.page_number}`;
+                  return (
+                    <div
+                      key={field.id}
+                      data-assigned-field-id={field.id}
+                      className={`absolute border-2 flex items-center justify-center ${
+                        complete
+                          ? 'border-green-500 bg-green-50'
+                          : field.required
+                          ? 'border-orange-500 bg-orange-50'
+                          : 'border-gray-400 bg-gray-50'
+                      } ${
+                        guideFieldId === field.id && !complete
+                          ? 'ring-4 ring-yellow-400 animate-pulse'
+                          : activeField === field.id ? 'ring-2 ring-blue-400' : ''
+                      } bg-opacity-90`}
+                      style={{
+                        left: `${field.x_coordinate * scale}px`,
+                        top: `${field.y_coordinate * scale}px`,
+                        width: `${field.width * scale}px`,
+                        height: `${field.height * scale}px`,
                       }}
-                      position={{
-                        x: sig.x_coordinate * scale,
-                        y: sig.y_coordinate * scale,
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setActiveField(field.id);
                       }}
+                      title={`${label}${field.required ? ' (required)' : ''}`}
                     >
-                      <Resizable
-                        width={sig.width * scale}
-                        height={sig.height * scale}
-                        onResize={(_e: any, { size }: { size: { width: number; height: number } }) => {
-                          // Maintain aspect ratio when resizing
-                          const aspectRatio = sig.width / sig.height;
-                          let newWidth = size.width / scale;
-                          let newHeight = size.height / scale;
-                          
-                          // Determine which dimension changed more (user intent)
-                          const widthChange = Math.abs(newWidth - sig.width);
-                          const heightChange = Math.abs(newHeight - sig.height);
-                          
-                          if (widthChange > heightChange) {
-                            // Width changed more, adjust height to maintain aspect ratio
-                            newHeight = newWidth / aspectRatio;
-                          } else {
-                            // Height changed more, adjust width to maintain aspect ratio
-                            newWidth = newHeight * aspectRatio;
-                          }
-                          
-                          updateSignature(sig.id, {
-                            width: newWidth,
-                            height: newHeight,
-                          });
-                        }}
-                        disabled={isReadOnly}
-                        minConstraints={[MIN_SIGNATURE_WIDTH * scale, MIN_SIGNATURE_HEIGHT * scale]}
-                        maxConstraints={[MAX_SIGNATURE_WIDTH * scale, MAX_SIGNATURE_HEIGHT * scale]}
-                      >
-                        <div
-                          className="absolute border-2 border-blue-500 bg-white bg-opacity-90"
-                          onClick={(e) => {
-                            e.stopPropagation();
-                            setActiveField(sig.id);
+                      {(field.field_type === 'signature' || field.field_type === 'initials') && (
+                        field.imageUrl ? (
+                          <>
+                            {field.stroke_data ? (
+                              <StrokeSignature
+                                data={field.stroke_data}
+                                width={field.width * scale}
+                                height={field.height * scale}
+                              />
+                            ) : (
+                              <img
+                                src={field.imageUrl}
+                                alt={label}
+                                className="w-full h-full"
+                                style={{ objectFit: 'contain' }}
+                              />
+                            )}
+                            {activeField === field.id && !isReadOnly && (
+                              <button
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  updateAssignedField(field.id, { value: '', imageUrl: undefined, stroke_data: undefined });
+                                }}
+                                aria-label={`Clear ${label}`}
+                                className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
+                              >
+                                ×
+                              </button>
+                            )}
+                          </>
+                        ) : (
+                          <button
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              fillSignatureField(field);
+                            }}
+                            disabled={isReadOnly}
+                            aria-label={`${field.field_type === 'signature' ? 'Sign' : 'Initial'}: ${ariaLabel}`}
+                            className="w-full h-full text-xs text-orange-700"
+                          >
+                            {field.field_type === 'signature' ? 'Click to sign' : 'Click to initial'}
+                            {field.required && ' *'}
+                          </button>
+                        )
+                      )}
+                      {field.field_type === 'checkbox' && (
+                        <input
+                          type="checkbox"
+                          checked={field.value === 'true'}
+                          onChange={(e) => updateAssignedField(field.id, { value: e.target.checked ? 'true' : '' })}
+                          disabled={isReadOnly}
+                          aria-label={ariaLabel}
+                          className="w-full h-full"
+                        />
+                      )}
+                      {(field.field_type === 'date' || field.field_type === 'name' || field.field_type === 'text') && (
+                        <input
+                          type="text"
+                          readOnly={!!mergeData && isMergeFieldLocked(field, mergeData, openedAt)}
+                          title={mergeData && isMergeFieldLocked(field, mergeData, openedAt) ? 'Filled in by the sender' : undefined}
+                          value={field.value || ''}
+                          placeholder={`${label}${field.required ? ' *' : ''}`}
+                          onChange={(e) => updateAssignedField(field.id, { value: e.target.value })}
+                          onFocus={() => {
+                            setActiveField(field.id);
+                            // Pre-fill name and date fields the first time they are focused
+                            if (!field.value && field.field_type === 'name' && fullName) {
+                              updateAssignedField(field.id, { value: fullName });
+                            } else if (!field.value && field.field_type === 'date') {
+                              updateAssignedField(field.id, { value: new Date().toLocaleDateString() });
+                            }
                           }}
-                        >
-                          {activeField === sig.id && !isReadOnly && (
-                            <button
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                deleteField(sig.id, 'signature');
-                              }}
-                              className="absolute -top-2 -right-2 bg-red-500 text-white rounded-full w-5 h-5 text-xs"
-                            >
-                              ×
-                            </button>
-                          )}
-                          {sig.imageUrl && (
-                            <img
-                              src={sig.imageUrl}
-                              alt="Signature"
-                              style={{
-                                width: `${sig.width * scale}px`,
-                                height: `${sig.height * scale}px`,
-                                objectFit: 'contain',
-                              }}
-                            />
-                          )}
-                        </div>
-                      </Resizable>
-                    </Draggable>
-                  ))}
-              </div>
-            ))}
-              </Document>
+                          disabled={isReadOnly}
+                          aria-label={ariaLabel}
+                          className="w-full h-full border-none outline-none bg-transparent px-1"
+                          style={{ fontSize: `${DEFAULT_TEXT_FONT_SIZE * scale}px` }}
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+
+              {/* Alignment guides while dragging */}
+              {activeGuides?.page === pageNum && activeGuides.guides.map((guide, index) => (
+                <div
+                  key={index}
+                  className="absolute bg-pink-500 pointer-events-none"
+                  style={guide.orientation === 'vertical'
+                    ? { left: `${guide.position * scale}px`, top: 0, bottom: 0, width: '1px' }
+                    : { top: `${guide.position * scale}px`, left: 0, right: 0, height: '1px' }}
+                />
+              ))}
+              </>
+            )}
+          />
+        ) : (
+          <div className="text-center p-8 text-gray-500">
+            No PDF loaded. Please wait...
+          </div>
+        )}
+
+        {!isReadOnly && requiredFields.length > 0 && (
+          <div className="absolute bottom-6 left-1/2 -translate-x-1/2 z-20 flex items-center gap-3 bg-white rounded-full shadow-lg border px-4 py-2">
+            <span className="text-sm text-gray-700">
+              {completedRequiredCount} of {requiredFields.length} completed
+            </span>
+            {guideComplete ? (
+              <span className="text-sm font-medium text-green-700">✓ Ready to submit</span>
             ) : (
-              <div className="text-center p-8 text-gray-500">
-                No PDF loaded. Please wait...
-              </div>
+              <button
+                onClick={goToNextRequiredField}
+                className="px-4 py-1 bg-yellow-400 text-gray-900 font-medium rounded-full hover:bg-yellow-500"
+              >
+                {guideFieldId ? 'Next' : 'Start'}
+              </button>
             )}
           </div>
-        </div>
+        )}
       </div>
 
       {/* Right: Signing Panel */}
@@ -894,6 +1530,7 @@ export function PDFSigningInterface({
                   setMode(mode === 'text' ? 'none' : 'text');
                   setActiveField(null);
                 }}
+                aria-pressed={mode === 'text'}
                 className={`w-full px-4 py-2 rounded mb-2 ${
                   mode === 'text' ? 'bg-blue-600 text-white' : 'bg-gray-200'
                 }`}
@@ -905,6 +1542,7 @@ export function PDFSigningInterface({
                   setMode(mode === 'signature' ? 'none' : 'signature');
                   setActiveField(null);
                 }}
+                aria-pressed={mode === 'signature'}
                 className={`w-full px-4 py-2 rounded transition-all ${
                   mode === 'signature' 
                     ? 'bg-blue-600 text-white shadow-lg ring-2 ring-blue-300' 
@@ -913,6 +1551,18 @@ export function PDFSigningInterface({
               >
                 {mode === 'signature' ? '✓ Signature Mode Active' : 'Add Signature'}
               </button>
+              {mode !== 'none' && (
+                <button
+                  onClick={placeAtViewportCenter}
+                  disabled={!pdfReady}
+                  className="w-full px-4 py-2 mt-2 rounded border border-blue-600 text-blue-700 hover:bg-blue-50 disabled:opacity-50"
+                >
+                  Place at Centre of View
+                </button>
+              )}
+              <p className="text-xs text-gray-500 mt-2">
+                Shift+click placed fields to select several and align them.
+              </p>
             </div>
 
             <div className="mb-4">
@@ -944,49 +1594,125 @@ export function PDFSigningInterface({
                 </button>
                 {signatureImage && (
                   <button
-                    onClick={() => setSignatureImage(null)}
+                    onClick={() => {
+                      setSignatureImage(null);
+                      setSignatureStrokeData(undefined);
+                    }}
                     className="px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300"
                   >
-                    Clear Uploaded
+                    Clear Selected
                   </button>
                 )}
               </div>
               
-              <div className="mb-2">
-                <p className="text-xs text-gray-600 mb-1">
-                  Option 1: Draw signature below
-                </p>
-                <canvas
-                  ref={signatureCanvasRef}
-                  width={300}
-                  height={150}
-                  className={`border-2 rounded cursor-crosshair ${
-                    mode === 'signature' ? 'border-blue-500 shadow-md' : 'border-gray-300'
-                  }`}
-                  style={{ touchAction: 'none' }}
-                />
+              {savedSignatures.length > 0 && (
+                <div className="mb-3">
+                  <p className="text-xs text-gray-600 mb-1">Use saved signature</p>
+                  <div className="grid grid-cols-2 gap-2">
+                    {savedSignatures.map(sig => (
+                      <button
+                        key={sig.id}
+                        onClick={() => {
+                          setSignatureImage(sig.signature_image_path);
+                          setSignatureStrokeData(parseStrokeData(sig.stroke_data));
+                          if (signatureTab === 'type') setSignatureTab('draw');
+                          setMode('signature');
+                          setActiveField(null);
+                        }}
+                        className={`p-1 border-2 rounded text-left ${
+                          signatureImage === sig.signature_image_path ? 'border-blue-500 bg-blue-50' : 'border-gray-200 hover:bg-gray-50'
+                        }`}
+                        title={sig.name}
+                      >
+                        <div className="h-10 flex items-center justify-center">
+                          {sig.imageUrl && (
+                            <img src={sig.imageUrl} alt={sig.name} className="max-h-full max-w-full" style={{ objectFit: 'contain' }} />
+                          )}
+                        </div>
+                        <p className="text-xs text-gray-600 truncate">
+                          {sig.name}{sig.is_default && ' ★'}
+                        </p>
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              <div className="flex border-b border-gray-200 mb-2">
+                {(['draw', 'type', 'upload'] as const).map(tab => (
+                  <button
+                    key={tab}
+                    onClick={() => setSignatureTab(tab)}
+                    className={`flex-1 px-3 py-1 text-sm capitalize border-b-2 -mb-px ${
+                      signatureTab === tab
+                        ? 'border-blue-600 text-blue-600 font-medium'
+                        : 'border-transparent text-gray-500 hover:text-gray-700'
+                    }`}
+                  >
+                    {tab}
+                  </button>
+                ))}
               </div>
-              
-              <div className="mt-3">
+
+              {/* Canvas stays mounted so its drawing handlers remain attached */}
+              <div className={`mb-2 ${signatureTab === 'draw' ? '' : 'hidden'}`}>
                 <p className="text-xs text-gray-600 mb-1">
-                  Option 2: Upload signature image
+                  Draw signature below
                 </p>
-                <input
-                  type="file"
-                  accept="image/png,image/jpeg"
-                  onChange={handleSignatureUpload}
-                  className="text-sm w-full"
+                <SignaturePad
+                  ref={signaturePadRef}
+                  className={mode === 'signature' ? 'border-blue-500 shadow-md' : 'border-gray-300'}
                 />
-                {signatureImage && (
-                  <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded">
-                    <p className="text-xs text-green-700">✓ Signature uploaded and ready</p>
-                  </div>
-                )}
               </div>
+
+              {signatureTab === 'type' && (
+                <div className="mb-2">
+                  <p className="text-xs text-gray-600 mb-1">
+                    Choose a style for your typed name
+                  </p>
+                  {!fullName.trim() && (
+                    <p className="text-xs text-orange-600 mb-1">Enter your full legal name above first</p>
+                  )}
+                  <div className="space-y-2">
+                    {SIGNATURE_FONTS.map(font => (
+                      <button
+                        key={font.family}
+                        onClick={() => setSignatureFont(font.family)}
+                        className={`w-full px-3 py-2 border-2 rounded text-left truncate ${
+                          signatureFont === font.family ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+                        }`}
+                        style={{ fontFamily: `"${font.family}", cursive`, fontSize: '24px' }}
+                        title={font.label}
+                      >
+                        {fullName.trim() || 'Your Name'}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+              )}
+              
+              {signatureTab === 'upload' && (
+                <div className="mt-3">
+                  <p className="text-xs text-gray-600 mb-1">
+                    Upload signature image
+                  </p>
+                  <input
+                    type="file"
+                    accept="image/png,image/jpeg"
+                    onChange={handleSignatureUpload}
+                    className="text-sm w-full"
+                  />
+                </div>
+              )}
+              {signatureImage && signatureTab !== 'type' && (
+                <div className="mt-2 p-2 bg-green-50 border border-green-200 rounded">
+                  <p className="text-xs text-green-700">✓ Signature selected and ready</p>
+                </div>
+              )}
               <p className="text-xs text-gray-500 mt-2">
                 {mode === 'signature' 
                   ? '💡 Click anywhere on the PDF to place your signature'
-                  : '💡 Create or upload a signature, then click "Add Signature" button'}
+                  : '💡 Draw, type or upload a signature, then click "Add Signature" button'}
               </p>
             </div>
           </>
@@ -1012,6 +1738,17 @@ export function PDFSigningInterface({
           />
         </div>
 
+        {assignedFields.length > 0 && (
+          <div className="mb-4 p-3 bg-gray-50 border border-gray-200 rounded">
+            <p className="text-sm font-medium text-gray-700">
+              Required fields: {completedRequiredCount} of {requiredFields.length} completed
+            </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Fill in the highlighted fields placed by the sender, or press Start below the document to go through them in order
+            </p>
+          </div>
+        )}
+
         {!isReadOnly && (
           <div className="space-y-2">
             <button
@@ -1020,15 +1757,56 @@ export function PDFSigningInterface({
             >
               Save as Draft
             </button>
+            <button
+              onClick={handlePreviewFinal}
+              disabled={generatingPreview || !pdfReady}
+              className="w-full px-4 py-2 border border-blue-600 text-blue-700 rounded hover:bg-blue-50 disabled:opacity-50"
+            >
+              {generatingPreview ? 'Preparing Preview...' : 'Preview Final Document'}
+            </button>
             <button
               onClick={handleSubmit}
-              className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              disabled={!guideComplete}
+              title={guideComplete ? undefined : 'Complete all required fields first'}
+              className="w-full px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
             >
               Submit & Sign Document
             </button>
+            {onDecline && (
+              <button
+                onClick={onDecline}
+                className="w-full px-4 py-2 text-red-700 rounded hover:bg-red-50"
+              >
+                Decline to Sign
+              </button>
+            )}
+            <p className="text-xs text-center text-gray-500" aria-live="polite">
+              {draftStatusText}
+            </p>
           </div>
         )}
       </div>
+
+      <div className="sr-only" aria-live="polite">
+        {announcement}
+      </div>
+
+      <FinalPreviewModal
+        fileUrl={finalPreviewUrl}
+        onClose={closeFinalPreview}
+        onSubmit={() => {
+          closeFinalPreview();
+          handleSubmit();
+        }}
+      />
+
+      <DraftConflictModal
+        isOpen={!!draftConflict}
+        localSavedAt={draftConflict?.local.savedAt ?? 0}
+        serverSavedAt={draftConflict?.serverSavedAt ?? 0}
+        onKeepLocal={() => resolveDraftConflict('local')}
+        onKeepServer={() => resolveDraftConflict('server')}
+      />
     </div>
   );
 }
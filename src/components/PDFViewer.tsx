@@ -0,0 +1,441 @@
+import { useState, useEffect, useLayoutEffect, useImperativeHandle, useMemo, useRef, useCallback } from 'react';
+import type { CSSProperties, ReactNode } from 'react';
+import { Document, Page, pdfjs } from 'react-pdf';
+import type { PageProps } from 'react-pdf';
+import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
+import 'react-pdf/dist/esm/Page/TextLayer.css';
+import { getViewSize, loadPageGeometry } from '../utils/pdfCoordinates';
+import type { LoadedDocument, PageGeometryMap } from '../utils/pdfCoordinates';
+import { findTextMatches, highlightTextItem, loadPageTexts } from '../utils/pdfSearch';
+import type { PageTexts } from '../utils/pdfSearch';
+import './PDFViewer.css';
+
+const WORKER_URL = '/pdf.worker.min.mjs';
+pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+
+// Pages rendered above and below the ones on screen, so scrolling doesn't show blank pages
+const BUFFER_PAGES = 2;
+const PAGE_GAP = 16;
+const VIEWER_PADDING = 16;
+// Placeholder size (US Letter) until the real page sizes are read
+const DEFAULT_PAGE_SIZE = { width: 612, height: 792 };
+
+type LoadedPage = Parameters<NonNullable<PageProps['onLoadSuccess']>>[0];
+type CustomTextRenderer = NonNullable<PageProps['customTextRenderer']>;
+
+export interface PDFViewerHandle {
+  scrollToPage: (pageNumber: number) => void;
+  getPageElement: (pageNumber: number) => HTMLDivElement | null;
+  getScrollContainer: () => HTMLDivElement | null;
+}
+
+interface PDFViewerProps {
+  file: string;
+  scale: number;
+  className?: string;
+  // Style applied to every page box, e.g. a crosshair cursor while placing fields
+  pageStyle?: CSSProperties;
+  onLoadSuccess?: (pdf: LoadedDocument, pageGeometry: PageGeometryMap) => void;
+  onPageChange?: (pageNumber: number) => void;
+  onPageClick?: (e: React.MouseEvent<HTMLDivElement>, pageNumber: number) => void;
+  onPageLoadSuccess?: (pageNumber: number, page: LoadedPage) => void;
+  // Rendered on top of each page, positioned in screen pixels from the page's top-left corner
+  renderPageOverlay?: (pageNumber: number) => ReactNode;
+  ref?: React.Ref<PDFViewerHandle>;
+}
+
+// Continuous-scroll viewer. Every page gets a box of its real size so the scrollbar is
+// accurate, but only the pages near the viewport are actually rendered by pdf.js.
+// Ctrl+F opens a search bar over the document's text layer.
+export function PDFViewer({
+  file,
+  scale,
+  className = '',
+  pageStyle,
+  onLoadSuccess,
+  onPageChange,
+  onPageClick,
+  onPageLoadSuccess,
+  renderPageOverlay,
+  ref,
+}: PDFViewerProps) {
+  const [workerReady, setWorkerReady] = useState(false);
+  const [numPages, setNumPages] = useState(0);
+  const [pageGeometry, setPageGeometry] = useState<PageGeometryMap | null>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const pageRefs = useRef<{ [key: number]: HTMLDivElement | null }>({});
+  // Page at the top of the viewport and how far into it (in page heights), so zooming and
+  // late-arriving page sizes keep the same spot in view
+  const scrollAnchorRef = useRef({ page: 1, offset: 0 });
+  const pdfRef = useRef<LoadedDocument | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchQuery, setSearchQuery] = useState('');
+  // -1 until the user steps to a match
+  const [activeMatchIndex, setActiveMatchIndex] = useState(-1);
+  // Extracted on first search, since most viewers never search
+  const [pageTexts, setPageTexts] = useState<PageTexts | null>(null);
+  const [pageTextsFailed, setPageTextsFailed] = useState(false);
+  const pageTextsLoadingRef = useRef(false);
+  const searchInputRef = useRef<HTMLInputElement | null>(null);
+  // Set while jumping to a match on a page whose text layer hasn't rendered yet
+  const pendingMatchScrollRef = useRef(false);
+
+  const pdfOptions = useMemo(() => ({
+    cMapUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/cmaps/`,
+    cMapPacked: true,
+    standardFontDataUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/standard_fonts/`,
+  }), []);
+
+  useEffect(() => {
+    const initializeWorker = async () => {
+      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+      try {
+        const response = await fetch(WORKER_URL, { method: 'HEAD' });
+        if (!response.ok) {
+          console.error('❌ PDF.js worker file not accessible:', response.status);
+        }
+      } catch (error) {
+        console.error('❌ Failed to verify worker file:', error);
+      }
+      // Still try to proceed - worker might load anyway
+      setWorkerReady(true);
+    };
+
+    initializeWorker();
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, [workerReady]);
+
+  // Top offset and displayed size of every page at the current zoom
+  const layout = useMemo(() => {
+    const pages: { top: number; width: number; height: number }[] = [];
+    let top = VIEWER_PADDING;
+    for (let pageNum = 1; pageNum <= numPages; pageNum++) {
+      const geometry = pageGeometry?.[pageNum];
+      const size = geometry ? getViewSize(geometry) : DEFAULT_PAGE_SIZE;
+      pages.push({ top, width: size.width * scale, height: size.height * scale });
+      top += size.height * scale + PAGE_GAP;
+    }
+    return pages;
+  }, [numPages, pageGeometry, scale]);
+
+  const findPageAt = (offset: number) => {
+    const index = layout.findIndex(page => offset < page.top + page.height + PAGE_GAP);
+    return index === -1 ? numPages : index + 1;
+  };
+
+  const firstVisible = findPageAt(scrollTop);
+  const lastVisible = findPageAt(scrollTop + viewportHeight);
+  const firstRendered = Math.max(1, firstVisible - BUFFER_PAGES);
+  const lastRendered = Math.min(numPages, lastVisible + BUFFER_PAGES);
+  // The page covering the middle of the viewport is the one being read
+  const currentPage = numPages > 0 ? findPageAt(scrollTop + viewportHeight / 2) : 0;
+
+  useEffect(() => {
+    if (currentPage > 0) {
+      onPageChange?.(currentPage);
+    }
+  }, [currentPage, onPageChange]);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    const page = layout[scrollAnchorRef.current.page - 1];
+    if (!container || !page) return;
+    container.scrollTop = page.top - VIEWER_PADDING + scrollAnchorRef.current.offset * page.height;
+  }, [layout]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const top = e.currentTarget.scrollTop;
+    const anchorPage = findPageAt(top);
+    const page = layout[anchorPage - 1];
+    if (page) {
+      scrollAnchorRef.current = { page: anchorPage, offset: (top - page.top + VIEWER_PADDING) / page.height };
+    }
+    setScrollTop(top);
+  };
+
+  useImperativeHandle(ref, () => ({
+    scrollToPage: (pageNumber: number) => {
+      const page = layout[pageNumber - 1];
+      containerRef.current?.scrollTo({ top: page ? page.top - VIEWER_PADDING : 0 });
+    },
+    getPageElement: (pageNumber: number) => pageRefs.current[pageNumber] ?? null,
+    getScrollContainer: () => containerRef.current,
+  }), [layout]);
+
+  const matches = useMemo(
+    () => (pageTexts ? findTextMatches(pageTexts, searchQuery) : []),
+    [pageTexts, searchQuery]
+  );
+  const activeMatch = matches[activeMatchIndex] ?? null;
+
+  const customTextRenderer = useCallback<CustomTextRenderer>(({ str, pageNumber, itemIndex }) => {
+    const itemMatches = matches.filter(match => match.pageNumber === pageNumber && match.itemIndex === itemIndex);
+    return highlightTextItem(str, itemMatches, activeMatch);
+  }, [matches, activeMatch]);
+
+  const scrollActiveMatchIntoView = () => {
+    const mark = containerRef.current?.querySelector('.pdf-search-match-active');
+    if (!mark) return false;
+    mark.scrollIntoView({ block: 'center' });
+    return true;
+  };
+
+  const showMatch = (index: number) => {
+    const match = matches[index];
+    if (!match) return;
+    setActiveMatchIndex(index);
+    const page = layout[match.pageNumber - 1];
+    if (page) {
+      containerRef.current?.scrollTo({ top: page.top - VIEWER_PADDING });
+    }
+    // The highlight is drawn when that page's text layer renders; see onRenderTextLayerSuccess
+    pendingMatchScrollRef.current = true;
+  };
+
+  const stepMatch = (direction: 1 | -1) => {
+    if (matches.length === 0) return;
+    if (activeMatchIndex === -1) {
+      showMatch(direction === 1 ? 0 : matches.length - 1);
+    } else {
+      showMatch((activeMatchIndex + direction + matches.length) % matches.length);
+    }
+  };
+
+  const readPageTexts = useCallback(() => {
+    if (!pdfRef.current || pageTextsLoadingRef.current) return;
+    pageTextsLoadingRef.current = true;
+    setPageTextsFailed(false);
+    loadPageTexts(pdfRef.current)
+      .then(setPageTexts)
+      .catch((error) => {
+        console.error('❌ Failed to read document text:', error);
+        setPageTextsFailed(true);
+      })
+      .finally(() => {
+        pageTextsLoadingRef.current = false;
+      });
+  }, []);
+
+  // Reading the text is retried on every open until it succeeds
+  const openSearch = useCallback(() => {
+    setSearchOpen(true);
+    searchInputRef.current?.select();
+    if (!pageTexts) {
+      readPageTexts();
+    }
+  }, [pageTexts, readPageTexts]);
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchQuery('');
+    containerRef.current?.focus();
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // Until the document has loaded there is nothing to search, so the browser's find is left alone
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === 'f' && pdfRef.current) {
+        e.preventDefault();
+        openSearch();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [openSearch]);
+
+  useEffect(() => {
+    if (searchOpen) {
+      searchInputRef.current?.focus();
+    }
+  }, [searchOpen]);
+
+  const handleDocumentLoadSuccess = (pdf: LoadedDocument) => {
+    pdfRef.current = pdf;
+    setNumPages(pdf.numPages);
+    console.log('✅ PDF document loaded successfully');
+    loadPageGeometry(pdf)
+      .then(geometry => {
+        setPageGeometry(geometry);
+        onLoadSuccess?.(pdf, geometry);
+      })
+      .catch((error) => console.error('❌ Failed to read page geometry:', error));
+  };
+
+  if (!workerReady) {
+    return (
+      <div className={`text-center p-8 ${className}`}>
+        <div className="text-lg mb-2">Initializing PDF.js worker...</div>
+        <div className="text-sm text-gray-500">Please wait</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`relative flex flex-col ${className}`}>
+      {searchOpen && (
+        <div className="absolute top-2 right-4 z-30 flex items-center gap-2 bg-white border rounded shadow-lg px-2 py-1">
+          <input
+            ref={searchInputRef}
+            type="search"
+            value={searchQuery}
+            onChange={(e) => {
+              setSearchQuery(e.target.value);
+              setActiveMatchIndex(-1);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') {
+                e.preventDefault();
+                stepMatch(e.shiftKey ? -1 : 1);
+              } else if (e.key === 'Escape') {
+                e.preventDefault();
+                closeSearch();
+              }
+            }}
+            placeholder="Search document"
+            aria-label="Search document"
+            className="w-48 px-2 py-1 text-sm border border-gray-300 rounded"
+          />
+          <span className="text-xs text-gray-600 min-w-[4.5rem] text-center" aria-live="polite">
+            {pageTextsFailed
+              ? "Couldn't read text"
+              : !pageTexts
+              ? 'Reading text…'
+              : !searchQuery.trim()
+              ? ''
+              : matches.length === 0
+              ? 'No matches'
+              : activeMatchIndex === -1
+              ? `${matches.length} found`
+              : `${activeMatchIndex + 1} of ${matches.length}`}
+          </span>
+          {pageTextsFailed && (
+            <button
+              onClick={readPageTexts}
+              className="px-2 py-0.5 text-xs bg-gray-200 rounded hover:bg-gray-300"
+            >
+              Retry
+            </button>
+          )}
+          <button
+            onClick={() => stepMatch(-1)}
+            disabled={matches.length === 0}
+            className="px-2 py-0.5 bg-gray-200 rounded disabled:opacity-50"
+            aria-label="Previous match"
+          >
+            ↑
+          </button>
+          <button
+            onClick={() => stepMatch(1)}
+            disabled={matches.length === 0}
+            className="px-2 py-0.5 bg-gray-200 rounded disabled:opacity-50"
+            aria-label="Next match"
+          >
+            ↓
+          </button>
+          <button
+            onClick={closeSearch}
+            className="px-2 text-gray-500 hover:text-gray-700"
+            aria-label="Close search"
+          >
+            ×
+          </button>
+        </div>
+      )}
+      {searchOpen && pageTexts && Object.values(pageTexts).every(items => items.every(text => !text.trim())) && (
+        <div className="absolute top-14 right-4 z-30 max-w-xs bg-yellow-50 border border-yellow-200 rounded px-3 py-2 text-xs text-yellow-800">
+          This document has no searchable text. Scanned pages become searchable once they have been OCR'd.
+        </div>
+      )}
+      <div
+        ref={containerRef}
+        tabIndex={-1}
+        className="flex-1 min-h-0 overflow-auto focus:outline-none"
+        style={{ paddingTop: VIEWER_PADDING, paddingBottom: VIEWER_PADDING }}
+        onScroll={handleScroll}
+      >
+        <Document
+          file={file}
+          onLoadSuccess={handleDocumentLoadSuccess}
+          onLoadError={(error) => {
+            console.error('❌ PDF load error:', error);
+            if (error.message?.includes('worker') || error.message?.includes('sendWithPromise')) {
+              console.error('⚠️ PDF.js worker error detected. Attempting to reinitialize...');
+              pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+            }
+            alert(`Failed to load PDF document: ${error.message || 'Unknown error'}. Please refresh the page and try again.`);
+          }}
+          loading={<div className="text-center p-8">Loading PDF...</div>}
+          error={
+            <div className="text-center p-8 text-red-600">
+              <p className="mb-2">Failed to load PDF file.</p>
+              <button
+                onClick={() => window.location.reload()}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Reload Page
+              </button>
+            </div>
+          }
+          options={pdfOptions}
+        >
+          {layout.map((page, index) => {
+            const pageNum = index + 1;
+            const isRendered = pageNum >= firstRendered && pageNum <= lastRendered;
+            return (
+              <div
+                key={pageNum}
+                ref={(el) => {
+                  pageRefs.current[pageNum] = el;
+                }}
+                data-page-number={pageNum}
+                className="relative mx-auto bg-white shadow"
+                style={{ width: page.width, height: page.height, marginBottom: PAGE_GAP, ...pageStyle }}
+                onClick={onPageClick ? (e) => onPageClick(e, pageNum) : undefined}
+              >
+                {isRendered ? (
+                  <Page
+                    pageNumber={pageNum}
+                    scale={scale}
+                    renderTextLayer={true}
+                    renderAnnotationLayer={true}
+                    onLoadSuccess={onPageLoadSuccess ? (loaded) => onPageLoadSuccess(pageNum, loaded) : undefined}
+                    customTextRenderer={searchOpen && matches.length > 0 ? customTextRenderer : undefined}
+                    onRenderTextLayerSuccess={() => {
+                      if (pendingMatchScrollRef.current && activeMatch?.pageNumber === pageNum) {
+                        pendingMatchScrollRef.current = !scrollActiveMatchIntoView();
+                      }
+                    }}
+                    onLoadError={(error) => {
+                      console.error(`❌ Error loading page ${pageNum}:`, error);
+                      if (error.message?.includes('worker') || error.message?.includes('sendWithPromise')) {
+                        pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
+                      }
+                    }}
+                    loading={<div className="p-4 text-sm text-gray-400">Loading page {pageNum}...</div>}
+                    error={
+                      <div className="text-center p-4 text-red-600 bg-red-50 border border-red-200 rounded">
+                        <p>Failed to load page {pageNum}</p>
+                      </div>
+                    }
+                  />
+                ) : (
+                  <div className="p-4 text-sm text-gray-400">Page {pageNum}</div>
+                )}
+                {renderPageOverlay?.(pageNum)}
+              </div>
+            );
+          })}
+        </Document>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,153 @@
+import { useState, useEffect, useRef } from 'react';
+import { Page } from 'react-pdf';
+import type { LoadedDocument } from '../utils/pdfCoordinates';
+import type { PageFieldCounts } from '../utils/documentFields';
+
+const THUMBNAIL_WIDTH = 96;
+// Placeholder height (portrait Letter) for thumbnails that haven't been scrolled into view yet
+const PLACEHOLDER_HEIGHT = Math.round(THUMBNAIL_WIDTH * (792 / 612));
+const NO_FIELDS: PageFieldCounts = { signatures: 0, textFields: 0, requiredUnfilled: 0 };
+
+interface PageThumbnailsProps {
+  pdf: LoadedDocument | null;
+  currentPage: number;
+  onSelect: (pageNumber: number) => void;
+  fieldCounts?: Record<number, PageFieldCounts>;
+  // Off where the fields' values aren't known, e.g. previewing a document nobody has submitted yet
+  showRequiredUnfilled?: boolean;
+}
+
+const plural = (count: number, word: string) => `${count} ${word}${count === 1 ? '' : 's'}`;
+
+const describePage = (pageNumber: number, counts: PageFieldCounts) => {
+  const parts = [`Page ${pageNumber}`];
+  if (counts.signatures) parts.push(plural(counts.signatures, 'signature'));
+  if (counts.textFields) parts.push(plural(counts.textFields, 'text field'));
+  if (counts.requiredUnfilled) parts.push(`${plural(counts.requiredUnfilled, 'required field')} not filled`);
+  return parts.join(', ');
+};
+
+// Collapsible strip of page thumbnails. Thumbnails only render once scrolled into view,
+// so long documents don't render every page up front.
+export function PageThumbnails({
+  pdf,
+  currentPage,
+  onSelect,
+  fieldCounts = {},
+  showRequiredUnfilled = true,
+}: PageThumbnailsProps) {
+  const [collapsed, setCollapsed] = useState(false);
+  const [seenPages, setSeenPages] = useState<Set<number>>(new Set());
+  const listRef = useRef<HTMLDivElement | null>(null);
+  const numPages = pdf ? pdf.numPages : 0;
+
+  useEffect(() => {
+    const list = listRef.current;
+    if (!list || collapsed) return;
+
+    const observer = new IntersectionObserver((entries) => {
+      const visible = entries
+        .filter(entry => entry.isIntersecting)
+        .map(entry => Number((entry.target as HTMLElement).dataset.thumbnailPage));
+      if (visible.length === 0) return;
+      setSeenPages(prev => {
+        if (visible.every(page => prev.has(page))) return prev;
+        return new Set([...prev, ...visible]);
+      });
+    }, { root: list, rootMargin: '200px 0px' });
+
+    list.querySelectorAll('[data-thumbnail-page]').forEach(element => observer.observe(element));
+    return () => observer.disconnect();
+  }, [numPages, collapsed]);
+
+  // Keep the current page's thumbnail in view as the document scrolls
+  useEffect(() => {
+    listRef.current
+      ?.querySelector(`[data-thumbnail-page="${currentPage}"]`)
+      ?.scrollIntoView({ block: 'nearest' });
+  }, [currentPage, collapsed]);
+
+  if (collapsed) {
+    return (
+      <div className="bg-white border-r flex flex-col items-center py-2">
+        <button
+          onClick={() => setCollapsed(false)}
+          className="px-2 py-1 text-gray-600 hover:bg-gray-100 rounded"
+          title="Show page thumbnails"
+          aria-label="Show page thumbnails"
+        >
+          »
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-36 bg-white border-r flex flex-col">
+      <div className="flex items-center justify-between px-3 py-2 border-b">
+        <span className="text-sm font-medium text-gray-700">Pages</span>
+        <button
+          onClick={() => setCollapsed(true)}
+          className="px-2 py-0.5 text-gray-600 hover:bg-gray-100 rounded"
+          title="Hide page thumbnails"
+          aria-label="Hide page thumbnails"
+        >
+          «
+        </button>
+      </div>
+      <div ref={listRef} className="flex-1 overflow-y-auto p-2 space-y-3">
+        {Array.from({ length: numPages }, (_, index) => index + 1).map(pageNum => {
+          const pageCounts = fieldCounts[pageNum] ?? NO_FIELDS;
+          const counts = showRequiredUnfilled ? pageCounts : { ...pageCounts, requiredUnfilled: 0 };
+          return (
+            <button
+              key={pageNum}
+              data-thumbnail-page={pageNum}
+              onClick={() => onSelect(pageNum)}
+              aria-label={describePage(pageNum, counts)}
+              aria-current={pageNum === currentPage ? 'page' : undefined}
+              className={`relative block w-full rounded p-1 ${pageNum === currentPage ? 'ring-2 ring-blue-500 bg-blue-50' : 'hover:bg-gray-100'}`}
+            >
+              <div className="mx-auto bg-gray-50 shadow-sm" style={{ width: THUMBNAIL_WIDTH }}>
+                {pdf && seenPages.has(pageNum) ? (
+                  <Page
+                    pdf={pdf}
+                    pageNumber={pageNum}
+                    width={THUMBNAIL_WIDTH}
+                    renderTextLayer={false}
+                    renderAnnotationLayer={false}
+                    loading={<div style={{ height: PLACEHOLDER_HEIGHT }} />}
+                  />
+                ) : (
+                  <div style={{ height: PLACEHOLDER_HEIGHT }} />
+                )}
+              </div>
+              <div className="mt-1 flex items-center justify-center gap-1 text-xs" aria-hidden="true">
+                <span className="text-gray-500">{pageNum}</span>
+                {counts.signatures > 0 && (
+                  <span className="px-1 rounded bg-blue-100 text-blue-800" title={plural(counts.signatures, 'signature')}>
+                    ✍ {counts.signatures}
+                  </span>
+                )}
+                {counts.textFields > 0 && (
+                  <span className="px-1 rounded bg-gray-200 text-gray-700" title={plural(counts.textFields, 'text field')}>
+                    T {counts.textFields}
+                  </span>
+                )}
+              </div>
+              {counts.requiredUnfilled > 0 && (
+                <span
+                  className="absolute top-0 right-0 min-w-[1.25rem] h-5 px-1 rounded-full bg-red-600 text-white text-xs flex items-center justify-center"
+                  title={`${plural(counts.requiredUnfilled, 'required field')} not filled`}
+                  aria-hidden="true"
+                >
+                  {counts.requiredUnfilled}
+                </span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from 'react';
+import type { ReactNode } from 'react';
+import api, { getApiErrorMessage } from '../utils/api';
+
+const SUBMIT_BUTTON_CLASSES = {
+  orange: 'bg-orange-600 hover:bg-orange-700',
+  red: 'bg-red-600 hover:bg-red-700',
+};
+
+interface ReasonModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  // Runs after the reason has been posted, before the modal closes
+  onSubmitted: () => void | Promise<void>;
+  title: string;
+  endpoint: string;
+  // Request body key the reason is sent under
+  fieldName: 'note' | 'reason';
+  fieldLabel: string;
+  placeholder: string;
+  hint: string;
+  requiredMessage: string;
+  failureMessage: string;
+  submitLabel: string;
+  submittingLabel: string;
+  submitColor: keyof typeof SUBMIT_BUTTON_CLASSES;
+  rows?: number;
+  documentTitle: string;
+  children?: ReactNode;
+}
+
+export function ReasonModal({
+  isOpen,
+  onClose,
+  onSubmitted,
+  title,
+  endpoint,
+  fieldName,
+  fieldLabel,
+  placeholder,
+  hint,
+  requiredMessage,
+  failureMessage,
+  submitLabel,
+  submittingLabel,
+  submitColor,
+  rows = 6,
+  documentTitle,
+  children,
+}: ReasonModalProps) {
+  const [text, setText] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState('');
+
+  const handleSubmit = async () => {
+    setError('');
+
+    if (!text.trim()) {
+      setError(requiredMessage);
+      return;
+    }
+
+    setSubmitting(true);
+    try {
+      await api.post(endpoint, { [fieldName]: text.trim() });
+      await onSubmitted();
+      // Reset form
+      setText('');
+      onClose();
+    } catch (error) {
+      setError(getApiErrorMessage(error, failureMessage));
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
+      <div className="bg-white rounded-lg shadow-xl max-w-2xl w-full mx-4">
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-4">
+            <h2 className="text-2xl font-bold text-gray-900">{title}</h2>
+            <button
+              onClick={onClose}
+              className="text-gray-400 hover:text-gray-600 text-2xl"
+              disabled={submitting}
+            >
+              ×
+            </button>
+          </div>
+
+          <div className="mb-4">
+            <p className="text-sm text-gray-600 mb-2">
+              <strong>Document:</strong> {documentTitle}
+            </p>
+            {children}
+          </div>
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded">
+              {error}
+            </div>
+          )}
+
+          <div className="mb-6">
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              {fieldLabel} (required):
+            </label>
+            <textarea
+              value={text}
+              onChange={(e) => setText(e.target.value)}
+              placeholder={placeholder}
+              rows={rows}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500"
+              disabled={submitting}
+            />
+            <p className="text-xs text-gray-500 mt-1">
+              {hint}
+            </p>
+          </div>
+
+          <div className="flex justify-end space-x-3">
+            <button
+              onClick={onClose}
+              disabled={submitting}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleSubmit}
+              disabled={submitting || !text.trim()}
+              className={`px-4 py-2 text-white rounded disabled:opacity-50 ${SUBMIT_BUTTON_CLASSES[submitColor]}`}
+            >
+              {submitting ? submittingLabel : submitLabel}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
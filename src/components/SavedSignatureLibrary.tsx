@@ -0,0 +1,334 @@
+import { useState, useEffect, useRef } from 'react';
+import api, { getApiErrorMessage } from '../utils/api';
+import { SignaturePad } from './SignaturePad';
+import type { SignaturePadHandle } from './SignaturePad';
+import { loadSavedSignatures, validateSignatureImage } from '../utils/signatureImages';
+import type { SavedSignature, SavedSignatureKind } from '../utils/signatureImages';
+import { SIGNATURE_FONTS, renderTypedSignature } from '../utils/typedSignature';
+
+export function SavedSignatureLibrary() {
+  const [signatures, setSignatures] = useState<SavedSignature[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showCreate, setShowCreate] = useState(false);
+  const [name, setName] = useState('');
+  const [kind, setKind] = useState<SavedSignatureKind>('signature');
+  const [method, setMethod] = useState<'draw' | 'type' | 'upload'>('draw');
+  const [typedText, setTypedText] = useState('');
+  const [font, setFont] = useState(SIGNATURE_FONTS[0].family);
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState('');
+  const padRef = useRef<SignaturePadHandle | null>(null);
+
+  useEffect(() => {
+    loadLibrary();
+  }, []);
+
+  const loadLibrary = async () => {
+    try {
+      setSignatures(await loadSavedSignatures());
+    } catch (error) {
+      console.error('Failed to load saved signatures:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setShowCreate(false);
+    setName('');
+    setKind('signature');
+    setMethod('draw');
+    setTypedText('');
+    setUploadFile(null);
+    setError('');
+  };
+
+  // Same checks as uploading in the signing panel
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] || null;
+    setUploadFile(null);
+    setError('');
+    if (!file) return;
+
+    const validationError = await validateSignatureImage(file);
+    if (validationError) {
+      setError(validationError);
+      e.target.value = '';
+      return;
+    }
+    setUploadFile(file);
+  };
+
+  const getSignatureBlob = async (): Promise<Blob | null> => {
+    if (method === 'draw') {
+      const pad = padRef.current;
+      if (!pad || pad.isEmpty()) return null;
+      return pad.toBlob();
+    }
+    if (method === 'type') {
+      if (!typedText.trim()) return null;
+      return renderTypedSignature(typedText.trim(), font);
+    }
+    return uploadFile;
+  };
+
+  const handleCreate = async () => {
+    setError('');
+
+    if (!name.trim()) {
+      setError('Please give this signature a name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const blob = await getSignatureBlob();
+      if (!blob) {
+        setError(method === 'upload' ? 'Please choose an image to upload' : `Please ${method} your ${kind} first`);
+        return;
+      }
+
+      const formData = new FormData();
+      // Uploads keep their own name and extension; drawn and typed ones are PNGs
+      formData.append('signature', blob, blob instanceof File ? blob.name : 'signature.png');
+      formData.append('name', name.trim());
+      formData.append('kind', kind);
+      if (method === 'draw' && padRef.current) {
+        formData.append('strokes', JSON.stringify(padRef.current.getStrokeData()));
+      }
+
+      await api.post('/signing/saved-signatures', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+
+      resetForm();
+      loadLibrary();
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to save signature'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSetDefault = async (signature: SavedSignature) => {
+    try {
+      await api.post(`/signing/saved-signatures/${signature.id}/default`);
+      // Only one default per kind
+      setSignatures(prev => prev.map(sig =>
+        sig.kind === signature.kind ? { ...sig, is_default: sig.id === signature.id } : sig
+      ));
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to set default signature'));
+    }
+  };
+
+  const handleDelete = async (signature: SavedSignature) => {
+    if (!confirm(`Delete "${signature.name}"?`)) {
+      return;
+    }
+
+    try {
+      await api.delete(`/signing/saved-signatures/${signature.id}`);
+      setSignatures(prev => prev.filter(sig => sig.id !== signature.id));
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to delete signature'));
+    }
+  };
+
+  const renderGroup = (groupKind: SavedSignatureKind, title: string) => {
+    const group = signatures.filter(sig => sig.kind === groupKind);
+    return (
+      <div className="mb-6">
+        <h4 className="text-sm font-medium text-gray-700 mb-2">{title}</h4>
+        {group.length === 0 ? (
+          <p className="text-sm text-gray-500">No saved {title.toLowerCase()} yet</p>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            {group.map(sig => (
+              <div
+                key={sig.id}
+                className={`border rounded-lg p-3 ${sig.is_default ? 'border-blue-500' : 'border-gray-200'}`}
+              >
+                <div className="h-20 flex items-center justify-center bg-gray-50 rounded mb-2">
+                  {sig.imageUrl ? (
+                    <img src={sig.imageUrl} alt={sig.name} className="max-h-full max-w-full" style={{ objectFit: 'contain' }} />
+                  ) : (
+                    <span className="text-xs text-gray-400">Preview unavailable</span>
+                  )}
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{sig.name}</p>
+                    {sig.is_default && (
+                      <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium bg-blue-100 text-blue-800">
+                        Default
+                      </span>
+                    )}
+                  </div>
+                  <div className="flex space-x-2 flex-shrink-0 ml-2">
+                    {!sig.is_default && (
+                      <button
+                        onClick={() => handleSetDefault(sig)}
+                        className="px-2 py-1 text-xs bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                      >
+                        Set Default
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleDelete(sig)}
+                      className="px-2 py-1 text-xs bg-red-100 text-red-700 rounded hover:bg-red-200"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="border-t border-gray-200 pt-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="text-lg font-medium text-gray-900">Saved Signatures</h3>
+        {!showCreate && (
+          <button
+            onClick={() => setShowCreate(true)}
+            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Add Signature
+          </button>
+        )}
+      </div>
+
+      {showCreate && (
+        <div className="mb-6 p-4 border border-gray-200 rounded-lg">
+          {error && (
+            <div className="mb-4 bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+              {error}
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Name</label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g. Formal signature"
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Type</label>
+              <select
+                value={kind}
+                onChange={(e) => setKind(e.target.value as SavedSignatureKind)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                <option value="signature">Signature</option>
+                <option value="initials">Initials</option>
+              </select>
+            </div>
+          </div>
+
+          <div className="flex border-b border-gray-200 mb-3">
+            {(['draw', 'type', 'upload'] as const).map(tab => (
+              <button
+                key={tab}
+                onClick={() => setMethod(tab)}
+                className={`px-4 py-1 text-sm capitalize border-b-2 -mb-px ${
+                  method === tab
+                    ? 'border-blue-600 text-blue-600 font-medium'
+                    : 'border-transparent text-gray-500 hover:text-gray-700'
+                }`}
+              >
+                {tab}
+              </button>
+            ))}
+          </div>
+
+          {method === 'draw' && (
+            <div className="mb-4">
+              <SignaturePad ref={padRef} className="border-gray-300" />
+              <button
+                onClick={() => padRef.current?.clear()}
+                className="mt-2 px-3 py-1 bg-gray-200 rounded text-sm hover:bg-gray-300"
+              >
+                Clear Canvas
+              </button>
+            </div>
+          )}
+
+          {method === 'type' && (
+            <div className="mb-4">
+              <input
+                type="text"
+                value={typedText}
+                onChange={(e) => setTypedText(e.target.value)}
+                placeholder={kind === 'initials' ? 'Your initials' : 'Your full name'}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md mb-2"
+              />
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {SIGNATURE_FONTS.map(option => (
+                  <button
+                    key={option.family}
+                    onClick={() => setFont(option.family)}
+                    className={`px-3 py-2 border-2 rounded text-left truncate ${
+                      font === option.family ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+                    }`}
+                    style={{ fontFamily: `"${option.family}", cursive`, fontSize: '24px' }}
+                    title={option.label}
+                  >
+                    {typedText.trim() || (kind === 'initials' ? 'AB' : 'Your Name')}
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {method === 'upload' && (
+            <div className="mb-4">
+              <input
+                type="file"
+                accept="image/png,image/jpeg"
+                onChange={handleFileChange}
+                className="text-sm w-full"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={resetForm}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={handleCreate}
+              disabled={saving}
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+            >
+              {saving ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-sm text-gray-500">Loading saved signatures...</div>
+      ) : (
+        <>
+          {renderGroup('signature', 'Signatures')}
+          {renderGroup('initials', 'Initials')}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useImperativeHandle, useRef } from 'react';
+import { SIGNATURE_CANVAS_HEIGHT, SIGNATURE_CANVAS_WIDTH } from '../utils/typedSignature';
+import { BASE_LINE_WIDTH, drawStrokeSegment } from '../utils/signatureStrokes';
+import type { SignatureStrokeData, Stroke } from '../utils/signatureStrokes';
+import { canvasToBlob, isCanvasEmpty } from '../utils/signatureImages';
+
+export interface SignaturePadHandle {
+  clear: () => void;
+  isEmpty: () => boolean;
+  toBlob: () => Promise<Blob>;
+  getStrokeData: () => SignatureStrokeData;
+}
+
+interface SignaturePadProps {
+  ref?: React.Ref<SignaturePadHandle>;
+  className?: string;
+}
+
+export function SignaturePad({ ref, className = '' }: SignaturePadProps) {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const strokesRef = useRef<Stroke[]>([]);
+  const startTimeRef = useRef<number | null>(null);
+
+  useImperativeHandle(ref, () => ({
+    clear: () => {
+      const canvas = canvasRef.current;
+      canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+      strokesRef.current = [];
+      startTimeRef.current = null;
+    },
+    isEmpty: () => !canvasRef.current || isCanvasEmpty(canvasRef.current),
+    toBlob: () => canvasToBlob(canvasRef.current!),
+    getStrokeData: () => ({
+      width: SIGNATURE_CANVAS_WIDTH,
+      height: SIGNATURE_CANVAS_HEIGHT,
+      strokes: strokesRef.current.map(stroke => stroke.map(point => ({ ...point }))),
+    }),
+  }), []);
+
+  useEffect(() => {
+    // Setup canvas for drawing
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    // Set canvas drawing properties
+    ctx.strokeStyle = '#000000';
+    ctx.fillStyle = '#000000';
+    ctx.lineWidth = BASE_LINE_WIDTH;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    let activePointerId: number | null = null;
+    let currentStroke: Stroke = [];
+
+    // Only styluses report meaningful pressure; mice and fingers are drawn at a constant width
+    const addPoint = (e: PointerEvent) => {
+      const rect = canvas.getBoundingClientRect();
+      if (startTimeRef.current === null) {
+        startTimeRef.current = e.timeStamp;
+      }
+      currentStroke.push({
+        x: Math.round((e.clientX - rect.left) * 100) / 100,
+        y: Math.round((e.clientY - rect.top) * 100) / 100,
+        t: Math.round(e.timeStamp - startTimeRef.current),
+        pressure: e.pointerType === 'pen' ? e.pressure : 0,
+      });
+      drawStrokeSegment(ctx, currentStroke, currentStroke.length - 1);
+    };
+
+    const handlePointerDown = (e: PointerEvent) => {
+      if (activePointerId !== null || (e.pointerType === 'mouse' && e.button !== 0)) return;
+
+      e.preventDefault();
+      activePointerId = e.pointerId;
+      canvas.setPointerCapture(e.pointerId);
+      currentStroke = [];
+      strokesRef.current.push(currentStroke);
+      addPoint(e);
+    };
+
+    const handlePointerMove = (e: PointerEvent) => {
+      if (e.pointerId !== activePointerId) return;
+
+      e.preventDefault();
+      // Coalesced events keep fast stylus strokes from turning into straight lines
+      const events = e.getCoalescedEvents ? e.getCoalescedEvents() : [];
+      (events.length > 0 ? events : [e]).forEach(addPoint);
+    };
+
+    const handlePointerUp = (e: PointerEvent) => {
+      if (e.pointerId !== activePointerId) return;
+      activePointerId = null;
+      if (canvas.hasPointerCapture(e.pointerId)) {
+        canvas.releasePointerCapture(e.pointerId);
+      }
+    };
+
+    canvas.addEventListener('pointerdown', handlePointerDown);
+    canvas.addEventListener('pointermove', handlePointerMove);
+    canvas.addEventListener('pointerup', handlePointerUp);
+    canvas.addEventListener('pointercancel', handlePointerUp);
+
+    return () => {
+      canvas.removeEventListener('pointerdown', handlePointerDown);
+      canvas.removeEventListener('pointermove', handlePointerMove);
+      canvas.removeEventListener('pointerup', handlePointerUp);
+      canvas.removeEventListener('pointercancel', handlePointerUp);
+    };
+  }, []);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={SIGNATURE_CANVAS_WIDTH}
+      height={SIGNATURE_CANVAS_HEIGHT}
+      className={`border-2 rounded cursor-crosshair ${className}`}
+      style={{ touchAction: 'none' }}
+    />
+  );
+}
@@ -0,0 +1,82 @@
+import { useState } from 'react';
+import { getSigningStages, moveSigningStep } from '../utils/signingOrder';
+import type { SigningStep } from '../utils/signingOrder';
+
+interface SigningOrderEditorProps {
+  steps: SigningStep[];
+  onChange: (steps: SigningStep[]) => void;
+}
+
+export function SigningOrderEditor({ steps, onChange }: SigningOrderEditorProps) {
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const stages = getSigningStages(steps);
+
+  const handleDrop = (index: number) => {
+    if (dragIndex !== null && dragIndex !== index) {
+      onChange(moveSigningStep(steps, dragIndex, index));
+    }
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  const toggleParallel = (index: number) => {
+    onChange(steps.map((step, i) =>
+      i === index ? { ...step, parallel_with_previous: !step.parallel_with_previous } : step
+    ));
+  };
+
+  if (steps.length === 0) {
+    return <p className="text-sm text-gray-500">Select or enter recipients to set their signing order</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => (
+        <div
+          key={step.email}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDropIndex(index);
+          }}
+          onDragLeave={() => setDropIndex(null)}
+          onDrop={(e) => {
+            e.preventDefault();
+            handleDrop(index);
+          }}
+          onDragEnd={() => {
+            setDragIndex(null);
+            setDropIndex(null);
+          }}
+          className={`flex items-center justify-between p-2 border rounded cursor-move ${
+            dropIndex === index && dragIndex !== index ? 'border-blue-500 bg-blue-50' : 'border-gray-200 bg-white'
+          } ${dragIndex === index ? 'opacity-50' : ''} ${step.parallel_with_previous && index > 0 ? 'ml-6' : ''}`}
+        >
+          <div className="flex items-center space-x-3 min-w-0">
+            <span className="text-gray-400">⋮⋮</span>
+            <span className="px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full text-xs font-medium flex-shrink-0">
+              Stage {stages[index]}
+            </span>
+            <span className="text-sm text-gray-900 truncate">{step.email}</span>
+          </div>
+          {index > 0 && (
+            <label className="flex items-center space-x-1 text-xs text-gray-600 flex-shrink-0 ml-2">
+              <input
+                type="checkbox"
+                checked={step.parallel_with_previous}
+                onChange={() => toggleParallel(index)}
+                className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+              />
+              <span>Sign with previous</span>
+            </label>
+          )}
+        </div>
+      ))}
+      <p className="text-xs text-gray-500">
+        Drag to reorder. Recipients in the same stage sign in parallel; the next stage is only notified once the previous one has signed.
+      </p>
+    </div>
+  );
+}
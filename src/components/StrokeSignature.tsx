@@ -0,0 +1,35 @@
+import { getAverageStrokeWidth, strokeToSvgPath } from '../utils/signatureStrokes';
+import type { SignatureStrokeData } from '../utils/signatureStrokes';
+
+interface StrokeSignatureProps {
+  data: SignatureStrokeData;
+  width: number;
+  height: number;
+}
+
+// Renders captured signature strokes as SVG so they stay sharp at any zoom level
+export function StrokeSignature({ data, width, height }: StrokeSignatureProps) {
+  return (
+    <svg
+      width={width}
+      height={height}
+      viewBox={`0 0 ${data.width} ${data.height}`}
+      preserveAspectRatio="xMidYMid meet"
+      style={{ display: 'block' }}
+      aria-label="Signature"
+      role="img"
+    >
+      {data.strokes.map((stroke, index) => (
+        <path
+          key={index}
+          d={strokeToSvgPath(stroke)}
+          fill="none"
+          stroke="#000000"
+          strokeWidth={getAverageStrokeWidth(stroke)}
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      ))}
+    </svg>
+  );
+}
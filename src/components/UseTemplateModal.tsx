@@ -0,0 +1,220 @@
+import { useState, useEffect } from 'react';
+import { Link } from 'react-router-dom';
+import api, { getApiErrorMessage } from '../utils/api';
+import { getUnfilledRoles } from '../utils/templates';
+import type { DocumentTemplate } from '../utils/templates';
+
+interface UseTemplateModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated: () => void;
+  // Preselects a template; otherwise the first one is chosen
+  templateId?: number;
+}
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Creates a document from a template and sends it: the only input is a title and an email per role
+export function UseTemplateModal({ isOpen, onClose, onCreated, templateId }: UseTemplateModalProps) {
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [loadingTemplates, setLoadingTemplates] = useState(true);
+  const [selectedId, setSelectedId] = useState<number | null>(templateId ?? null);
+  const [title, setTitle] = useState('');
+  const [roleEmails, setRoleEmails] = useState<Record<string, string>>({});
+  const [dueDate, setDueDate] = useState('');
+  const [creating, setCreating] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+    api.get('/templates')
+      .then(response => {
+        if (cancelled) return;
+        const loaded: DocumentTemplate[] = response.data.templates || [];
+        setTemplates(loaded);
+        setSelectedId(current => current ?? loaded[0]?.id ?? null);
+      })
+      .catch((error) => {
+        console.error('Failed to load templates:', error);
+        if (!cancelled) setError(getApiErrorMessage(error, 'Failed to load templates'));
+      })
+      .finally(() => {
+        if (!cancelled) setLoadingTemplates(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen]);
+
+  const template = templates.find(t => t.id === selectedId) || null;
+
+  const handleClose = () => {
+    setTitle('');
+    setRoleEmails({});
+    setDueDate('');
+    setError('');
+    onClose();
+  };
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!template) return;
+    setError('');
+
+    const unfilled = getUnfilledRoles(template.roles, roleEmails);
+    if (unfilled.length > 0) {
+      setError(`Please enter an email for: ${unfilled.join(', ')}`);
+      return;
+    }
+    const invalid = template.roles.filter(role => !EMAIL_REGEX.test(roleEmails[role].trim()));
+    if (invalid.length > 0) {
+      setError(`Invalid email for: ${invalid.join(', ')}`);
+      return;
+    }
+
+    setCreating(true);
+    try {
+      await api.post(`/templates/${template.id}/use`, {
+        title: title.trim() || template.name,
+        recipients: template.roles.map(role => ({ role, email: roleEmails[role].trim().toLowerCase() })),
+        due_date: dueDate || null,
+      });
+      handleClose();
+      onCreated();
+      alert('Document created from template and sent successfully!');
+    } catch (error) {
+      setError(getApiErrorMessage(error, 'Failed to create document from template'));
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+      <div className="relative top-20 mx-auto p-5 border w-[28rem] shadow-lg rounded-md bg-white">
+        <h3 className="text-lg font-bold mb-4">Use Template</h3>
+
+        {loadingTemplates ? (
+          <p className="text-sm text-gray-500 mb-4">Loading templates...</p>
+        ) : templates.length === 0 ? (
+          <div className="mb-4 text-sm text-gray-600">
+            <p>No templates yet.</p>
+            <Link to="/templates" className="text-blue-600 hover:text-blue-800">
+              Create a template
+            </Link>
+          </div>
+        ) : (
+          <form onSubmit={handleCreate}>
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Template
+              </label>
+              <select
+                value={selectedId ?? ''}
+                onChange={(e) => {
+                  setSelectedId(Number(e.target.value));
+                  setRoleEmails({});
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              >
+                {templates.map(t => (
+                  <option key={t.id} value={t.id}>{t.name}</option>
+                ))}
+              </select>
+            </div>
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Title
+              </label>
+              <input
+                type="text"
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                placeholder={template?.name || 'Document title'}
+              />
+            </div>
+
+            {template && (
+              <div className="mb-4 space-y-2">
+                {template.roles.length === 0 && (
+                  <p className="text-sm text-red-600">
+                    This template has no roles yet.{' '}
+                    <Link to={`/templates/${template.id}`} className="text-blue-600 hover:text-blue-800">
+                      Edit its layout
+                    </Link>
+                  </p>
+                )}
+                {template.roles.map(role => (
+                  <div key={role}>
+                    <label className="block text-sm font-medium text-gray-700 mb-1">
+                      {role}
+                    </label>
+                    <input
+                      type="email"
+                      value={roleEmails[role] || ''}
+                      onChange={(e) => setRoleEmails({ ...roleEmails, [role]: e.target.value })}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      placeholder="email@example.com"
+                    />
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="mb-4">
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Due Date (Optional)
+              </label>
+              <input
+                type="date"
+                value={dueDate}
+                onChange={(e) => setDueDate(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md"
+              />
+            </div>
+
+            {error && (
+              <div className="mb-4 p-3 bg-red-100 border border-red-400 text-red-700 rounded text-sm">
+                {error}
+              </div>
+            )}
+
+            <div className="flex justify-end space-x-2">
+              <button
+                type="button"
+                onClick={handleClose}
+                className="px-4 py-2 text-sm bg-gray-300 rounded hover:bg-gray-400"
+              >
+                Cancel
+              </button>
+              <button
+                type="submit"
+                disabled={creating || !template || template.roles.length === 0}
+                className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+              >
+                {creating ? 'Sending...' : 'Create & Send'}
+              </button>
+            </div>
+          </form>
+        )}
+
+        {templates.length === 0 && !loadingTemplates && (
+          <div className="flex justify-end">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="px-4 py-2 text-sm bg-gray-300 rounded hover:bg-gray-400"
+            >
+              Close
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
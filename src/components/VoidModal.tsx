@@ -0,0 +1,37 @@
+import { ReasonModal } from './ReasonModal';
+
+interface VoidModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onVoided: () => void | Promise<void>;
+  documentId: number | string;
+  documentTitle: string;
+}
+
+export function VoidModal({ isOpen, onClose, onVoided, documentId, documentTitle }: VoidModalProps) {
+  return (
+    <ReasonModal
+      isOpen={isOpen}
+      onClose={onClose}
+      onSubmitted={onVoided}
+      title="Void Document"
+      endpoint={`/documents/${documentId}/void`}
+      fieldName="reason"
+      fieldLabel="Reason"
+      placeholder="Please explain why the document is being voided..."
+      hint="Recipients see this reason when they open the document"
+      requiredMessage="Please enter a reason for voiding the document"
+      failureMessage="Failed to void document"
+      submitLabel="Void Document"
+      submittingLabel="Voiding..."
+      submitColor="red"
+      rows={4}
+      documentTitle={documentTitle}
+    >
+      <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded p-3">
+        Every recipient will lose access and any signatures not yet confirmed are discarded.
+        This cannot be undone.
+      </p>
+    </ReasonModal>
+  );
+}
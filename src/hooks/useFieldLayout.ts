@@ -0,0 +1,58 @@
+import { useCallback, useState } from 'react';
+import api from '../utils/api';
+import type { DocumentField } from '../utils/documentFields';
+import { fromStoredRect } from '../utils/pdfCoordinates';
+import type { PageGeometryMap } from '../utils/pdfCoordinates';
+
+// Field layout and PDF for the pages that place fields on a PDF (documents and templates).
+// Both load `${basePath}/fields` and `${basePath}/download` and save in PDF points.
+export function useFieldLayout() {
+  const [fields, setFields] = useState<DocumentField[]>([]);
+  const [pdfUrl, setPdfUrl] = useState('');
+  const [pageGeometry, setPageGeometry] = useState<PageGeometryMap | null>(null);
+
+  // `parseField` turns an API row (StoredField, StoredTemplateField) into an editor field.
+  // A missing layout is an empty one; a missing or empty PDF throws for the page to report.
+  const loadLayout = useCallback(async <T>(
+    basePath: string,
+    parseField: (field: T) => DocumentField
+  ): Promise<DocumentField[]> => {
+    let loadedFields: DocumentField[] = [];
+    try {
+      const fieldsResponse = await api.get(`${basePath}/fields`);
+      loadedFields = (fieldsResponse.data.fields || []).map(parseField);
+    } catch (error) {
+      console.log(`No fields defined yet for ${basePath}:`, error);
+    }
+    setFields(loadedFields);
+
+    const pdfResponse = await api.get(`${basePath}/download`, {
+      responseType: 'blob',
+    });
+
+    if (!pdfResponse.data || pdfResponse.data.size === 0) {
+      throw new Error('PDF file is empty or invalid');
+    }
+
+    const blob = new Blob([pdfResponse.data], { type: 'application/pdf' });
+    setPdfUrl(URL.createObjectURL(blob));
+    return loadedFields;
+  }, []);
+
+  // Fields arrive in PDF points (or legacy view units) before the PDF is parsed,
+  // so they're converted for the editor once the page geometry is known
+  const handlePageGeometryLoad = (geometry: PageGeometryMap) => {
+    if (pageGeometry) return;
+    setPageGeometry(geometry);
+    setFields(prev => prev.map(field => fromStoredRect(field, geometry).field));
+  };
+
+  return {
+    fields,
+    setFields,
+    pdfUrl,
+    pageGeometry,
+    loadLayout,
+    handlePageGeometryLoad,
+  };
+}
@@ -0,0 +1,83 @@
+import { useCallback, useState } from 'react';
+
+// Undo/redo stack around a single piece of state. Updates that share a merge key
+// and arrive close together (typing, resize drags) collapse into one history entry.
+
+const HISTORY_LIMIT = 100;
+const MERGE_WINDOW_MS = 1000;
+
+interface HistoryState<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  mergeKey: string | null;
+  mergedAt: number;
+}
+
+export function useHistory<T>(initialValue: T) {
+  const [history, setHistory] = useState<HistoryState<T>>({
+    past: [],
+    present: initialValue,
+    future: [],
+    mergeKey: null,
+    mergedAt: 0,
+  });
+
+  const set = useCallback((updater: (prev: T) => T, mergeKey?: string) => {
+    const now = Date.now();
+    setHistory(h => {
+      const next = updater(h.present);
+      if (next === h.present) return h;
+
+      const merge = !!mergeKey && mergeKey === h.mergeKey && now - h.mergedAt < MERGE_WINDOW_MS;
+      return {
+        past: merge ? h.past : [...h.past, h.present].slice(-HISTORY_LIMIT),
+        present: next,
+        future: [],
+        mergeKey: mergeKey ?? null,
+        mergedAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setHistory(h => {
+      if (h.past.length === 0) return h;
+      return {
+        past: h.past.slice(0, -1),
+        present: h.past[h.past.length - 1],
+        future: [h.present, ...h.future],
+        mergeKey: null,
+        mergedAt: 0,
+      };
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setHistory(h => {
+      if (h.future.length === 0) return h;
+      return {
+        past: [...h.past, h.present],
+        present: h.future[0],
+        future: h.future.slice(1),
+        mergeKey: null,
+        mergedAt: 0,
+      };
+    });
+  }, []);
+
+  // Replace the state and forget all history, e.g. after loading a saved draft
+  const reset = useCallback((value: T) => {
+    setHistory({ past: [], present: value, future: [], mergeKey: null, mergedAt: 0 });
+  }, []);
+
+  return {
+    state: history.present,
+    set,
+    undo,
+    redo,
+    reset,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+  };
+}
@@ -0,0 +1,485 @@
+import { useState, useEffect, useRef } from 'react';
+import { useNavigate, useSearchParams } from 'react-router-dom';
+import api, { getApiErrorMessage } from '../utils/api';
+import { fillTitlePattern, parseRecipientsCsv } from '../utils/bulkSend';
+import type { BulkSendRow, BulkSendStatus, ParsedRecipientsCsv, SkippedCsvRow } from '../utils/bulkSend';
+import { parseDueDate } from '../utils/reminders';
+import type { DocumentTemplate } from '../utils/templates';
+
+interface RowResult {
+  status: BulkSendStatus;
+  error?: string;
+}
+
+// Rows shown in the preview step
+const PREVIEW_ROWS = 3;
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// Sends one template individually to every row of a CSV. Each row goes through the template's
+// use endpoint (upload + fields + assign on the server), one at a time so failures are per row.
+export function BulkSend() {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [step, setStep] = useState<'setup' | 'preview' | 'send'>('setup');
+  const [templateId, setTemplateId] = useState<number | null>(
+    searchParams.get('template') ? Number(searchParams.get('template')) : null
+  );
+  const [fileName, setFileName] = useState('');
+  const [parsed, setParsed] = useState<ParsedRecipientsCsv | null>(null);
+  const [fileError, setFileError] = useState('');
+  // Role filled by each row's email; other roles get the same email for every document
+  const [rowRole, setRowRole] = useState('');
+  const [fixedRoleEmails, setFixedRoleEmails] = useState<Record<string, string>>({});
+  const [titlePattern, setTitlePattern] = useState('');
+  const [dueDate, setDueDate] = useState('');
+  const [results, setResults] = useState<Record<number, RowResult>>({});
+  const [sending, setSending] = useState(false);
+  const stopRequestedRef = useRef(false);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await api.get('/templates');
+      const loaded: DocumentTemplate[] = (response.data.templates || []).filter((t: DocumentTemplate) => t.roles.length > 0);
+      setTemplates(loaded);
+      setTemplateId(current => current ?? loaded[0]?.id ?? null);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const template = templates.find(t => t.id === templateId) || null;
+  const currentRowRole = template?.roles.includes(rowRole) ? rowRole : template?.roles[0] || '';
+  const otherRoles = template ? template.roles.filter(role => role !== currentRowRole) : [];
+  const currentTitlePattern = titlePattern || (template ? `${template.name} - {name}` : '');
+  const rows = parsed?.rows || [];
+  const skippedRows = parsed?.skipped || [];
+
+  const handleFile = async (file: File) => {
+    setFileName(file.name);
+    setFileError('');
+    setResults({});
+    try {
+      setParsed(parseRecipientsCsv(await file.text()));
+    } catch (error) {
+      console.error(`❌ Failed to read ${file.name}:`, error);
+      setParsed(null);
+      setFileError(`Could not read ${file.name}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  };
+
+  const getRecipients = (row: BulkSendRow) =>
+    template!.roles.map(role => ({
+      role,
+      email: role === currentRowRole ? row.email : fixedRoleEmails[role].trim().toLowerCase(),
+      name: role === currentRowRole ? row.name : undefined,
+    }));
+
+  const handleContinue = () => {
+    if (!template || rows.length === 0) return;
+    const invalid = otherRoles.filter(role => !EMAIL_REGEX.test((fixedRoleEmails[role] || '').trim()));
+    if (invalid.length > 0) {
+      alert(`Please enter a valid email for: ${invalid.join(', ')}`);
+      return;
+    }
+    setStep('preview');
+  };
+
+  const sendRows = async (rowsToSend: BulkSendRow[]) => {
+    if (!template) return;
+    stopRequestedRef.current = false;
+    setSending(true);
+    setResults(prev => {
+      const next = { ...prev };
+      rowsToSend.forEach(row => {
+        next[row.line] = { status: 'queued' };
+      });
+      return next;
+    });
+
+    for (const row of rowsToSend) {
+      if (stopRequestedRef.current) break;
+      setResults(prev => ({ ...prev, [row.line]: { status: 'sending' } }));
+      try {
+        await api.post(`/templates/${template.id}/use`, {
+          title: fillTitlePattern(currentTitlePattern, row),
+          recipients: getRecipients(row),
+          due_date: dueDate || null,
+          merge_data: row.values,
+        });
+        setResults(prev => ({ ...prev, [row.line]: { status: 'sent' } }));
+      } catch (error) {
+        console.error(`❌ Bulk send failed for line ${row.line}:`, error);
+        setResults(prev => ({
+          ...prev,
+          [row.line]: { status: 'failed', error: getApiErrorMessage(error) || 'Failed to send' },
+        }));
+      }
+    }
+    setSending(false);
+  };
+
+  const handleStart = () => {
+    if (!confirm(`Send "${template?.name}" to ${rows.length} recipient(s)? Each gets their own document.`)) {
+      return;
+    }
+    setStep('send');
+    sendRows(rows);
+  };
+
+  // Every CSV row in file order, including the ones that were never sent
+  const reportLines: ({ line: number; row: BulkSendRow } | { line: number; skipped: SkippedCsvRow })[] = [
+    ...rows.map(row => ({ line: row.line, row })),
+    ...skippedRows.map(skipped => ({ line: skipped.line, skipped })),
+  ].sort((a, b) => a.line - b.line);
+
+  const countByStatus = (status: BulkSendStatus) => Object.values(results).filter(r => r.status === status).length;
+  const failedRows = rows.filter(row => results[row.line]?.status === 'failed');
+  // Rows left queued after Stop can be sent later
+  const unsentRows = rows.filter(row => results[row.line]?.status === 'queued');
+
+  const getStatusColor = (status?: BulkSendStatus) => {
+    switch (status) {
+      case 'sent':
+        return 'bg-green-100 text-green-800';
+      case 'failed':
+        return 'bg-red-100 text-red-800';
+      case 'sending':
+        return 'bg-blue-100 text-blue-800';
+      case 'skipped':
+        return 'bg-yellow-100 text-yellow-800';
+      default:
+        return 'bg-gray-100 text-gray-700';
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading templates...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/templates')}
+            className="text-blue-600 hover:text-blue-800"
+            disabled={sending}
+          >
+            ← Back to Templates
+          </button>
+          <h1 className="text-xl font-bold">Bulk Send</h1>
+        </div>
+        <div className="flex items-center space-x-2 text-sm">
+          {(['setup', 'preview', 'send'] as const).map((name, index) => (
+            <span
+              key={name}
+              className={`px-3 py-1 rounded-full ${step === name ? 'bg-blue-600 text-white' : 'bg-gray-200 text-gray-700'}`}
+            >
+              {index + 1}. {name === 'setup' ? 'Recipients' : name === 'preview' ? 'Preview' : 'Send'}
+            </span>
+          ))}
+        </div>
+      </nav>
+
+      <main className="max-w-5xl mx-auto p-6 space-y-6">
+        {step === 'setup' && (
+          <div className="bg-white rounded-lg shadow p-6 space-y-5">
+            {templates.length === 0 ? (
+              <p className="text-gray-600">
+                Bulk send works from a template with at least one role.{' '}
+                <button onClick={() => navigate('/templates')} className="text-blue-600 hover:text-blue-800">
+                  Create a template
+                </button>
+              </p>
+            ) : (
+              <>
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Template</label>
+                  <select
+                    value={templateId ?? ''}
+                    onChange={(e) => {
+                      setTemplateId(Number(e.target.value));
+                      setFixedRoleEmails({});
+                      setTitlePattern('');
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  >
+                    {templates.map(t => (
+                      <option key={t.id} value={t.id}>{t.name}</option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Recipients CSV</label>
+                  <input
+                    type="file"
+                    accept=".csv,text/csv"
+                    onChange={(e) => {
+                      const file = e.target.files?.[0];
+                      if (file) handleFile(file);
+                    }}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  />
+                  <p className="text-xs text-gray-500 mt-1">
+                    Header row with an "email" column and optionally "name". Other columns are custom values
+                    for merge fields with the same key, and can be used in the title as {'{column}'}.
+                  </p>
+                  {fileError && <p className="mt-2 text-sm text-red-600">{fileError}</p>}
+                  {parsed && (
+                    <div className="mt-2 text-sm">
+                      <p className="text-gray-700">
+                        {fileName}: {rows.length} recipient(s)
+                        {parsed.columns.length > 0 && ` • Columns: ${parsed.columns.join(', ')}`}
+                      </p>
+                      {parsed.errors.map(error => (
+                        <p key={error} className="mt-2 text-sm text-red-600">{error}</p>
+                      ))}
+                      {skippedRows.length > 0 && (
+                        <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                          <p className="text-xs font-semibold text-yellow-800 mb-1">
+                            {skippedRows.length} row(s) will be skipped:
+                          </p>
+                          <ul className="text-xs text-gray-700 list-disc ml-4 max-h-32 overflow-y-auto">
+                            {skippedRows.map(skipped => (
+                              <li key={skipped.line}>Line {skipped.line}: {skipped.reason}</li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {template && (
+                  <div className="space-y-3">
+                    <div>
+                      <label className="block text-sm font-medium text-gray-700 mb-2">Role filled from the CSV</label>
+                      <select
+                        value={currentRowRole}
+                        onChange={(e) => setRowRole(e.target.value)}
+                        className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                      >
+                        {template.roles.map(role => (
+                          <option key={role} value={role}>{role}</option>
+                        ))}
+                      </select>
+                    </div>
+                    {otherRoles.map(role => (
+                      <div key={role}>
+                        <label className="block text-sm font-medium text-gray-700 mb-1">
+                          {role} (same for every document)
+                        </label>
+                        <input
+                          type="email"
+                          value={fixedRoleEmails[role] || ''}
+                          onChange={(e) => setFixedRoleEmails({ ...fixedRoleEmails, [role]: e.target.value })}
+                          className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                          placeholder="email@example.com"
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Document title</label>
+                    <input
+                      type="text"
+                      value={currentTitlePattern}
+                      onChange={(e) => setTitlePattern(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-sm font-medium text-gray-700 mb-2">Due Date (Optional)</label>
+                    <input
+                      type="date"
+                      value={dueDate}
+                      onChange={(e) => setDueDate(e.target.value)}
+                      className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end">
+                  <button
+                    onClick={handleContinue}
+                    disabled={!template || rows.length === 0}
+                    className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Preview
+                  </button>
+                </div>
+              </>
+            )}
+          </div>
+        )}
+
+        {step === 'preview' && template && (
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <p className="text-sm text-gray-600">
+              {rows.length} document(s) will be created from "{template.name}". The first{' '}
+              {Math.min(PREVIEW_ROWS, rows.length)} look like this:
+            </p>
+            <div className="space-y-3">
+              {rows.slice(0, PREVIEW_ROWS).map(row => (
+                <div key={row.line} className="border border-gray-200 rounded-lg p-4 text-sm">
+                  <h4 className="font-medium text-gray-900">{fillTitlePattern(currentTitlePattern, row)}</h4>
+                  <ul className="mt-2 text-gray-700">
+                    {getRecipients(row).map(recipient => (
+                      <li key={recipient.role}>
+                        <span className="text-gray-500">{recipient.role}:</span>{' '}
+                        {recipient.name ? `${recipient.name} <${recipient.email}>` : recipient.email}
+                      </li>
+                    ))}
+                  </ul>
+                  {Object.keys(row.values).length > 0 && (
+                    <div className="flex flex-wrap gap-1 mt-2">
+                      {Object.entries(row.values).map(([column, value]) => (
+                        <span key={column} className="px-2 py-0.5 rounded bg-gray-100 text-xs text-gray-700">
+                          {column}: {value || '—'}
+                        </span>
+                      ))}
+                    </div>
+                  )}
+                  {dueDate && (
+                    <p className="text-xs text-gray-500 mt-2">Due: {parseDueDate(dueDate).toLocaleDateString()}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between">
+              <button
+                onClick={() => setStep('setup')}
+                className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+              >
+                Back
+              </button>
+              <button
+                onClick={handleStart}
+                className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+              >
+                Send {rows.length} Document(s)
+              </button>
+            </div>
+          </div>
+        )}
+
+        {step === 'send' && (
+          <div className="bg-white rounded-lg shadow p-6 space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-sm text-gray-700">
+                {countByStatus('sent')} sent • {countByStatus('failed')} failed • {countByStatus('queued') + countByStatus('sending')} remaining
+                {skippedRows.length > 0 && ` • ${skippedRows.length} skipped`}
+              </p>
+              <div className="flex space-x-2">
+                {sending ? (
+                  <button
+                    onClick={() => {
+                      stopRequestedRef.current = true;
+                    }}
+                    className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    Stop
+                  </button>
+                ) : (
+                  <>
+                    {unsentRows.length > 0 && (
+                      <button
+                        onClick={() => sendRows(unsentRows)}
+                        className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                      >
+                        Resume ({unsentRows.length})
+                      </button>
+                    )}
+                    {failedRows.length > 0 && (
+                      <button
+                        onClick={() => sendRows(failedRows)}
+                        className="px-4 py-2 text-sm bg-orange-600 text-white rounded hover:bg-orange-700"
+                      >
+                        Retry Failed ({failedRows.length})
+                      </button>
+                    )}
+                    <button
+                      onClick={() => navigate('/')}
+                      className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                    >
+                      Done
+                    </button>
+                  </>
+                )}
+              </div>
+            </div>
+            <div className="w-full bg-gray-200 rounded-full h-2">
+              <div
+                className="bg-blue-600 h-2 rounded-full"
+                style={{ width: `${rows.length ? ((countByStatus('sent') + countByStatus('failed')) / rows.length) * 100 : 0}%` }}
+              />
+            </div>
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-2 font-medium">Line</th>
+                  <th className="px-4 py-2 font-medium">Recipient</th>
+                  <th className="px-4 py-2 font-medium">Document</th>
+                  <th className="px-4 py-2 font-medium">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {reportLines.map(entry => {
+                  const { line } = entry;
+                  if ('skipped' in entry) {
+                    const { skipped } = entry;
+                    return (
+                      <tr key={line} className="align-top">
+                        <td className="px-4 py-2 text-gray-500">{line}</td>
+                        <td className="px-4 py-2 text-gray-900">{skipped.email || '—'}</td>
+                        <td className="px-4 py-2 text-gray-400">—</td>
+                        <td className="px-4 py-2">
+                          <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor('skipped')}`}>
+                            skipped
+                          </span>
+                          <p className="mt-1 text-xs text-yellow-700">{skipped.reason}</p>
+                        </td>
+                      </tr>
+                    );
+                  }
+                  const { row } = entry;
+                  const result = results[line];
+                  return (
+                    <tr key={line} className="align-top">
+                      <td className="px-4 py-2 text-gray-500">{line}</td>
+                      <td className="px-4 py-2 text-gray-900">{row.name ? `${row.name} <${row.email}>` : row.email}</td>
+                      <td className="px-4 py-2 text-gray-700">{fillTitlePattern(currentTitlePattern, row)}</td>
+                      <td className="px-4 py-2">
+                        <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(result?.status)}`}>
+                          {result?.status || 'queued'}
+                        </span>
+                        {result?.error && <p className="mt-1 text-xs text-red-600">{result.error}</p>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,8 +1,18 @@
 import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
-import api from '../utils/api';
+import api, { getApiErrorMessage } from '../utils/api';
 import { formatDistanceToNow } from 'date-fns';
+import { SigningOrderEditor } from '../components/SigningOrderEditor';
+import { getSigningStages, normalizeRecipientEmails, reconcileSigningOrder } from '../utils/signingOrder';
+import type { SigningStep } from '../utils/signingOrder';
+import { DEFAULT_REMINDER_RULE, describeReminderRule, isOverdue, parseDueDate } from '../utils/reminders';
+import type { ReminderRule } from '../utils/reminders';
+import { canVoid, isVoided } from '../utils/voiding';
+import { VoidModal } from '../components/VoidModal';
+import { UseTemplateModal } from '../components/UseTemplateModal';
+
+const NOW_REFRESH_MS = 60 * 1000;
 
 interface Document {
   id: number;
@@ -13,6 +23,16 @@ interface Document {
   recipient_status?: string;
   due_date?: string;
   signed_at?: string;
+  current_stage?: number;
+  total_stages?: number;
+  next_signers?: string[];
+  last_reminder_at?: string;
+  void_reason?: string;
+  voided_at?: string;
+  declined_by_name?: string;
+  declined_by_email?: string;
+  decline_reason?: string;
+  declined_at?: string;
 }
 
 interface Stats {
@@ -36,6 +56,7 @@ interface Activity {
   recipient_email?: string;
   recipient_name?: string;
   actor_name?: string;
+  reason?: string;
   sender_name?: string;
   status?: string;
 }
@@ -49,12 +70,14 @@ export function Dashboard() {
   const [waitingConfirmation, setWaitingConfirmation] = useState<Document[]>([]);
   const [sentBackForSigning, setSentBackForSigning] = useState<Document[]>([]); // Documents I sent back (for management) or sent back to me (for recipients)
   const [sentBackToMe, setSentBackToMe] = useState<Document[]>([]); // Documents sent back to me (for management who are also recipients)
+  const [declinedDocuments, setDeclinedDocuments] = useState<Document[]>([]); // Documents a recipient refused to sign (for management)
   const [stats, setStats] = useState<Stats>({});
   const [activities, setActivities] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(true);
   const [confirming, setConfirming] = useState<number | null>(null);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showAssignModal, setShowAssignModal] = useState(false);
+  const [showUseTemplateModal, setShowUseTemplateModal] = useState(false);
   const [selectedDocument, setSelectedDocument] = useState<Document | null>(null);
   const [uploadTitle, setUploadTitle] = useState('');
   const [uploadFile, setUploadFile] = useState<File | null>(null);
@@ -65,7 +88,30 @@ export function Dashboard() {
   const [allUsers, setAllUsers] = useState<any[]>([]);
   const [loadingUsers, setLoadingUsers] = useState(false);
   const [dueDate, setDueDate] = useState('');
+  const [useSigningOrder, setUseSigningOrder] = useState(false);
+  const [signingSteps, setSigningSteps] = useState<SigningStep[]>([]);
   const [filter, setFilter] = useState<'all' | 'pending' | 'draft' | 'signed'>('all');
+  const [remindersEnabled, setRemindersEnabled] = useState(true);
+  const [reminderRule, setReminderRule] = useState<ReminderRule>(DEFAULT_REMINDER_RULE);
+  const [reminding, setReminding] = useState<number | null>(null);
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
+  const [voidTarget, setVoidTarget] = useState<Document | null>(null);
+  // Overdue is judged against this; refreshed every minute and on returning to the tab,
+  // so a dashboard left open past midnight moves documents into overdue
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const refreshNow = () => setNow(new Date());
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refreshNow();
+    };
+    const interval = setInterval(refreshNow, NOW_REFRESH_MS);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, []);
 
   useEffect(() => {
     if (user?.role === 'management') {
@@ -75,6 +121,7 @@ export function Dashboard() {
       loadWaitingConfirmation();
       loadAssignedToSign(); // Management users can also be assigned documents
       loadSentBackForSigning(); // Management users can see documents they sent back
+      loadDeclined();
     } else {
       loadAssignedDocuments();
       loadAssignedToSign();
@@ -189,6 +236,16 @@ export function Dashboard() {
     }
   };
 
+  const loadDeclined = async () => {
+    try {
+      const response = await api.get('/documents/declined');
+      setDeclinedDocuments(response.data.documents || []);
+    } catch (error) {
+      console.error('Failed to load declined documents:', error);
+      setDeclinedDocuments([]);
+    }
+  };
+
   const handleConfirm = async (documentId: number) => {
     if (!confirm('Are you sure you want to confirm this signed document?')) {
       return;
@@ -250,6 +307,37 @@ export function Dashboard() {
     }
   };
 
+  const getAssignEmails = () => {
+    const emails: string[] = [];
+    
+    // Add emails from text input
+    if (recipientEmails.trim()) {
+      emails.push(...recipientEmails.split(',').map(e => e.trim()).filter(e => e));
+    }
+    
+    // Add emails from selected users
+    selectedUsers.forEach(userId => {
+      const user = allUsers.find(u => u.id === userId);
+      if (user) {
+        emails.push(user.email);
+      }
+    });
+
+    return normalizeRecipientEmails(emails);
+  };
+
+  const resetAssignForm = () => {
+    setShowAssignModal(false);
+    setSelectedDocument(null);
+    setRecipientEmails('');
+    setSelectedUsers([]);
+    setDueDate('');
+    setUseSigningOrder(false);
+    setSigningSteps([]);
+    setRemindersEnabled(true);
+    setReminderRule(DEFAULT_REMINDER_RULE);
+  };
+
   const handleAssign = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!selectedDocument || (!recipientEmails.trim() && selectedUsers.length === 0)) {
@@ -259,41 +347,40 @@ export function Dashboard() {
 
     setAssigning(true);
     try {
-      const emails: string[] = [];
-      
-      // Add emails from text input
-      if (recipientEmails.trim()) {
-        emails.push(...recipientEmails.split(',').map(e => e.trim()).filter(e => e));
-      }
-      
-      // Add emails from selected users
-      selectedUsers.forEach(userId => {
-        const user = allUsers.find(u => u.id === userId);
-        if (user && !emails.includes(user.email)) {
-          emails.push(user.email);
-        }
-      });
+      const emails = getAssignEmails();
       
       if (emails.length === 0) {
         alert('Please enter at least one recipient email');
         return;
       }
+
+      // With a signing order, recipients are sent in order with their stage number
+      const orderedSteps = reconcileSigningOrder(signingSteps, emails);
+      const stages = getSigningStages(orderedSteps);
       
       await api.post(`/documents/${selectedDocument.id}/assign`, {
-        recipient_emails: emails,
+        recipient_emails: useSigningOrder ? orderedSteps.map(step => step.email) : emails,
         due_date: dueDate || null,
+        signing_order: useSigningOrder
+          ? orderedSteps.map((step, index) => ({ email: step.email, stage: stages[index] }))
+          : null,
+        // Daily and overdue reminders count from the due date, so they're dropped without one
+        reminder_rule: remindersEnabled
+          ? {
+              ...reminderRule,
+              daily_within_hours: dueDate ? reminderRule.daily_within_hours : null,
+              escalate_to_sender: dueDate ? reminderRule.escalate_to_sender : false,
+            }
+          : null,
       });
 
-      setShowAssignModal(false);
-      setSelectedDocument(null);
-      setRecipientEmails('');
-      setSelectedUsers([]);
-      setDueDate('');
+      resetAssignForm();
       loadDocuments();
       loadStats();
       loadActivity();
       if (user?.role === 'management') {
         loadWaitingConfirmation();
+        loadDeclined();
       } else {
         loadAssignedToSign();
       }
@@ -305,6 +392,30 @@ export function Dashboard() {
     }
   };
 
+  const handleSendReminder = async (doc: Document) => {
+    setReminding(doc.id);
+    try {
+      await api.post(`/documents/${doc.id}/remind`);
+      loadDocuments();
+      loadActivity();
+      alert('Reminder sent to everyone who has not signed yet.');
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to send reminder'));
+    } finally {
+      setReminding(null);
+    }
+  };
+
+  const handleVoided = () => {
+    loadDocuments();
+    loadStats();
+    loadActivity();
+    loadWaitingConfirmation();
+    loadSentBackForSigning();
+    loadDeclined();
+    alert('Document voided. Recipients no longer have access.');
+  };
+
   const handleUserToggle = (userId: number) => {
     setSelectedUsers(prev => 
       prev.includes(userId) 
@@ -338,9 +449,33 @@ export function Dashboard() {
       return getFilteredDocuments();
     }
     // For management, show their own documents
-    return documents;
+    return showOverdueOnly ? documents.filter(d => isOverdue(d, now)) : documents;
   };
 
+  const renderSigningStage = (doc: Document) => {
+    if (!doc.total_stages || doc.total_stages < 2) return null;
+    return (
+      <p className="text-xs text-indigo-600 mt-1">
+        Stage {doc.current_stage || 1} of {doc.total_stages}
+        {doc.next_signers && doc.next_signers.length > 0 && ` • Next: ${doc.next_signers.join(', ')}`}
+      </p>
+    );
+  };
+
+  const renderVoidedNotice = (doc: { void_reason?: string; voided_at?: string }) => (
+    <>
+      <div className="mt-2 p-3 bg-gray-100 border border-gray-300 rounded">
+        <p className="text-xs font-semibold text-gray-700 mb-1">
+          Voided{doc.voided_at && ` ${formatDistanceToNow(new Date(doc.voided_at), { addSuffix: true })}`}:
+        </p>
+        <p className="text-sm text-gray-700 whitespace-pre-wrap">{doc.void_reason || 'No reason given'}</p>
+      </div>
+      <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-gray-200 text-gray-700">
+        Voided
+      </span>
+    </>
+  );
+
   const getActivityIcon = (action: string) => {
     switch (action) {
       case 'signed':
@@ -349,6 +484,10 @@ export function Dashboard() {
         return '✈';
       case 'uploaded':
         return '📄';
+      case 'voided':
+        return '⊘';
+      case 'declined':
+        return '✗';
       default:
         return '•';
     }
@@ -362,6 +501,10 @@ export function Dashboard() {
         return 'text-blue-600';
       case 'uploaded':
         return 'text-purple-600';
+      case 'voided':
+        return 'text-gray-500';
+      case 'declined':
+        return 'text-red-600';
       default:
         return 'text-gray-600';
     }
@@ -560,22 +703,27 @@ export function Dashboard() {
                         <h4 className="text-lg font-medium text-gray-900">{doc.title}</h4>
                         <p className="text-sm text-gray-500 mt-1">
                           From {doc.uploaded_by_name}
-                          {doc.due_date && ` • Due: ${new Date(doc.due_date).toLocaleDateString()}`}
+                          {doc.due_date && ` • Due: ${parseDueDate(doc.due_date).toLocaleDateString()}`}
                         </p>
-                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${
-                          doc.recipient_status === 'pending' 
-                            ? 'bg-yellow-100 text-yellow-800' :
-                            'bg-purple-100 text-purple-800'
-                        }`}>
-                          {doc.recipient_status}
-                        </span>
+                        {renderSigningStage(doc)}
+                        {isVoided(doc) ? renderVoidedNotice(doc) : (
+                          <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${
+                            doc.recipient_status === 'pending' 
+                              ? 'bg-yellow-100 text-yellow-800' :
+                              'bg-purple-100 text-purple-800'
+                          }`}>
+                            {doc.recipient_status}
+                          </span>
+                        )}
                       </div>
-                      <button
-                        onClick={() => navigate(`/documents/${doc.id}/sign`)}
-                        className="ml-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                      >
-                        Sign Now
-                      </button>
+                      {!isVoided(doc) && (
+                        <button
+                          onClick={() => navigate(`/documents/${doc.id}/sign`)}
+                          className="ml-4 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                        >
+                          Sign Now
+                        </button>
+                      )}
                     </div>
                   </div>
                 ))}
@@ -609,16 +757,20 @@ export function Dashboard() {
                               <p className="text-sm text-gray-700 whitespace-pre-wrap">{doc.revision_note}</p>
                             </div>
                           )}
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
-                            Sent Back for Signing
-                          </span>
+                          {isVoided(doc) ? renderVoidedNotice(doc) : (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
+                              Sent Back for Signing
+                            </span>
+                          )}
                         </div>
-                        <button
-                          onClick={() => navigate(`/documents/${doc.id}/sign`)}
-                          className="ml-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
-                        >
-                          Sign Again
-                        </button>
+                        {!isVoided(doc) && (
+                          <button
+                            onClick={() => navigate(`/documents/${doc.id}/sign`)}
+                            className="ml-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Sign Again
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -657,16 +809,20 @@ export function Dashboard() {
                               <p className="text-sm text-gray-700 whitespace-pre-wrap">{doc.revision_note}</p>
                             </div>
                           )}
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
-                            Sent Back for Signing
-                          </span>
+                          {isVoided(doc) ? renderVoidedNotice(doc) : (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
+                              Sent Back for Signing
+                            </span>
+                          )}
                         </div>
-                        <button
-                          onClick={() => navigate(`/documents/${doc.id}/sign`)}
-                          className="ml-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
-                        >
-                          Sign Again
-                        </button>
+                        {!isVoided(doc) && (
+                          <button
+                            onClick={() => navigate(`/documents/${doc.id}/sign`)}
+                            className="ml-4 px-4 py-2 bg-red-600 text-white rounded hover:bg-red-700"
+                          >
+                            Sign Again
+                          </button>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -705,9 +861,11 @@ export function Dashboard() {
                               <p className="text-sm text-gray-700 whitespace-pre-wrap">{doc.revision_note}</p>
                             </div>
                           )}
-                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
-                            Sent Back for Signing
-                          </span>
+                          {isVoided(doc) ? renderVoidedNotice(doc) : (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
+                              Sent Back for Signing
+                            </span>
+                          )}
                         </div>
                         <button
                           onClick={() => navigate(`/documents/${doc.id}/preview`)}
@@ -727,6 +885,66 @@ export function Dashboard() {
             </div>
           )}
 
+          {/* Declined Card - For Management (documents a recipient refused to sign) */}
+          {user?.role === 'management' && declinedDocuments.length > 0 && (
+            <div className="bg-white rounded-lg shadow mb-6 p-6 border-2 border-red-300">
+              <div className="flex items-center justify-between mb-4">
+                <h3 className="text-xl font-bold text-gray-900">Declined</h3>
+                <span className="px-3 py-1 bg-red-100 text-red-800 rounded-full text-sm font-medium">
+                  {declinedDocuments.length} {declinedDocuments.length === 1 ? 'document' : 'documents'}
+                </span>
+              </div>
+              <div className="space-y-3">
+                {declinedDocuments.map((doc) => (
+                  <div key={doc.id} className="border border-red-200 rounded-lg p-4 hover:bg-red-50">
+                    <div className="flex items-center justify-between">
+                      <div className="flex-1">
+                        <h4 className="text-lg font-medium text-gray-900">{doc.title}</h4>
+                        <p className="text-sm text-gray-500 mt-1">
+                          Declined by {doc.declined_by_name}{doc.declined_by_email && ` (${doc.declined_by_email})`}
+                          {doc.declined_at && ` • ${formatDistanceToNow(new Date(doc.declined_at), { addSuffix: true })}`}
+                        </p>
+                        {doc.decline_reason && (
+                          <div className="mt-2 p-3 bg-yellow-50 border border-yellow-200 rounded">
+                            <p className="text-xs font-semibold text-yellow-800 mb-1">Reason:</p>
+                            <p className="text-sm text-gray-700 whitespace-pre-wrap">{doc.decline_reason}</p>
+                          </div>
+                        )}
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-red-100 text-red-800">
+                          Declined
+                        </span>
+                      </div>
+                      <div className="flex space-x-2 ml-4">
+                        <button
+                          onClick={() => navigate(`/documents/${doc.id}/preview`)}
+                          className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                        >
+                          View
+                        </button>
+                        <button
+                          onClick={() => {
+                            setSelectedDocument(doc);
+                            setShowAssignModal(true);
+                            loadUsers();
+                          }}
+                          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+                        >
+                          Reassign
+                        </button>
+                        <button
+                          onClick={() => setVoidTarget(doc)}
+                          className="px-4 py-2 bg-red-100 text-red-700 rounded hover:bg-red-200"
+                        >
+                          Void
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Waiting for Confirmation Card - For Management */}
           {user?.role === 'management' && waitingConfirmation.length > 0 && (
             <div className="bg-white rounded-lg shadow mb-6 p-6">
@@ -746,9 +964,12 @@ export function Dashboard() {
                           Signed by {doc.signer_name} ({doc.signer_email})
                           {doc.signed_at && ` • ${formatDistanceToNow(new Date(doc.signed_at), { addSuffix: true })}`}
                         </p>
-                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-blue-100 text-blue-800">
-                          Waiting for Confirmation
-                        </span>
+                        {renderSigningStage(doc)}
+                        {isVoided(doc) ? renderVoidedNotice(doc) : (
+                          <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 bg-blue-100 text-blue-800">
+                            Waiting for Confirmation
+                          </span>
+                        )}
                       </div>
                       <div className="flex space-x-2 ml-4">
                         <button
@@ -757,13 +978,15 @@ export function Dashboard() {
                         >
                           View
                         </button>
-                        <button
-                          onClick={() => handleConfirm(doc.id)}
-                          disabled={confirming === doc.id}
-                          className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
-                        >
-                          {confirming === doc.id ? 'Confirming...' : 'Confirm'}
-                        </button>
+                        {!isVoided(doc) && (
+                          <button
+                            onClick={() => handleConfirm(doc.id)}
+                            disabled={confirming === doc.id}
+                            className="px-4 py-2 bg-green-600 text-white rounded hover:bg-green-700 disabled:opacity-50"
+                          >
+                            {confirming === doc.id ? 'Confirming...' : 'Confirm'}
+                          </button>
+                        )}
                       </div>
                     </div>
                   </div>
@@ -772,9 +995,9 @@ export function Dashboard() {
             </div>
           )}
 
-          {/* Upload Button */}
+          {/* Upload and Template Buttons */}
           {user?.role === 'management' && (
-            <div className="mb-8">
+            <div className="mb-8 flex items-center space-x-3">
               <button
                 onClick={() => setShowUploadModal(true)}
                 className="px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 flex items-center space-x-2"
@@ -782,6 +1005,19 @@ export function Dashboard() {
                 <span>☁️</span>
                 <span>Upload New Document</span>
               </button>
+              <button
+                onClick={() => setShowUseTemplateModal(true)}
+                className="px-6 py-3 bg-white text-blue-700 border border-blue-600 rounded-lg hover:bg-blue-50 flex items-center space-x-2"
+              >
+                <span>📋</span>
+                <span>Use Template</span>
+              </button>
+              <button
+                onClick={() => navigate('/templates')}
+                className="px-4 py-3 text-sm text-gray-700 hover:bg-gray-100 rounded-lg"
+              >
+                Manage Templates
+              </button>
             </div>
           )}
 
@@ -807,20 +1043,43 @@ export function Dashboard() {
                           {activity.action === 'uploaded' && (
                             <>New document uploaded: "{activity.document_title}"</>
                           )}
+                          {activity.action === 'declined' && (
+                            <>
+                              {activity.recipient_name} declined to sign "{activity.document_title}"
+                              {activity.reason && `: ${activity.reason}`}
+                            </>
+                          )}
+                          {activity.action === 'voided' && (
+                            <>
+                              {activity.actor_name || 'Sender'} voided "{activity.document_title}"
+                              {activity.reason && `: ${activity.reason}`}
+                            </>
+                          )}
                         </p>
                         <p className="text-sm text-gray-500">
                           {activity.recipient_email && `${activity.recipient_email} • `}
                           {formatDistanceToNow(new Date(activity.timestamp), { addSuffix: true })}
+                          {' • '}
+                          <button
+                            onClick={() => navigate(`/documents/${activity.document_id}/audit`)}
+                            className="text-blue-600 hover:text-blue-800"
+                          >
+                            Full audit trail
+                          </button>
                         </p>
                       </div>
                     </div>
                     <span className={`px-3 py-1 rounded-full text-xs font-medium ${
                       activity.action === 'signed' ? 'bg-green-100 text-green-800' :
                       activity.action === 'assigned' ? 'bg-yellow-100 text-yellow-800' :
+                      activity.action === 'voided' ? 'bg-gray-200 text-gray-700' :
+                      activity.action === 'declined' ? 'bg-red-100 text-red-800' :
                       'bg-purple-100 text-purple-800'
                     }`}>
                       {activity.action === 'signed' ? 'Completed' : 
-                       activity.action === 'assigned' ? 'Pending' : 'Draft'}
+                       activity.action === 'assigned' ? 'Pending' :
+                       activity.action === 'voided' ? 'Voided' :
+                       activity.action === 'declined' ? 'Declined' : 'Draft'}
                     </span>
                   </div>
                 ))}
@@ -835,6 +1094,22 @@ export function Dashboard() {
                 <h3 className="text-xl font-bold text-gray-900">
                   {user?.role === 'management' ? 'Your Documents' : 'Your Documents'}
                 </h3>
+                {user?.role === 'management' && (
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => setShowOverdueOnly(false)}
+                      className={`px-4 py-2 rounded ${!showOverdueOnly ? 'bg-blue-600 text-white' : 'bg-gray-200'}`}
+                    >
+                      All Documents
+                    </button>
+                    <button
+                      onClick={() => setShowOverdueOnly(true)}
+                      className={`px-4 py-2 rounded ${showOverdueOnly ? 'bg-red-600 text-white' : 'bg-gray-200'}`}
+                    >
+                      Overdue ({documents.filter(d => isOverdue(d, now)).length})
+                    </button>
+                  </div>
+                )}
                 {user?.role === 'recipient' && (
                   <div className="flex space-x-2">
                     <button
@@ -869,7 +1144,9 @@ export function Dashboard() {
             <div className="divide-y divide-gray-200">
               {getAllDocumentsForRecipient().length === 0 ? (
                 <div className="px-6 py-12 text-center text-gray-500">
-                  {user?.role === 'management' ? 'No documents uploaded yet' : 'No documents assigned to you'}
+                  {user?.role === 'management'
+                    ? showOverdueOnly ? 'No overdue documents' : 'No documents uploaded yet'
+                    : 'No documents assigned to you'}
                 </div>
               ) : (
                 getAllDocumentsForRecipient().map((doc) => (
@@ -880,44 +1157,90 @@ export function Dashboard() {
                         {user?.role === 'management' 
                           ? `Uploaded by ${doc.uploaded_by_name}` 
                           : `From ${doc.uploaded_by_name}`}
-                        {doc.due_date && ` • Due: ${new Date(doc.due_date).toLocaleDateString()}`}
+                        {doc.due_date && ` • Due: ${parseDueDate(doc.due_date).toLocaleDateString()}`}
                       </p>
-                      <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${
-                        doc.recipient_status === 'signed' || doc.status === 'signed' 
-                          ? 'bg-green-100 text-green-800' :
-                        doc.recipient_status === 'pending' || doc.status === 'pending' 
-                          ? 'bg-yellow-100 text-yellow-800' :
-                        'bg-purple-100 text-purple-800'
-                      }`}>
-                        {doc.recipient_status || doc.status}
-                      </span>
+                      {renderSigningStage(doc)}
+                      {isVoided(doc) ? renderVoidedNotice(doc) : (
+                        <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ${
+                          doc.recipient_status === 'signed' || doc.status === 'signed' 
+                            ? 'bg-green-100 text-green-800' :
+                          doc.recipient_status === 'pending' || doc.status === 'pending' 
+                            ? 'bg-yellow-100 text-yellow-800' :
+                          doc.recipient_status === 'declined' || doc.status === 'declined'
+                            ? 'bg-red-100 text-red-800' :
+                          'bg-purple-100 text-purple-800'
+                        }`}>
+                          {doc.recipient_status || doc.status}
+                        </span>
+                      )}
+                      {user?.role === 'management' && isOverdue(doc, now) && (
+                        <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-medium mt-2 ml-2 bg-red-100 text-red-800">
+                          Overdue
+                        </span>
+                      )}
+                      {user?.role === 'management' && doc.last_reminder_at && (
+                        <p className="text-xs text-gray-500 mt-1">
+                          Last reminder sent {formatDistanceToNow(new Date(doc.last_reminder_at), { addSuffix: true })}
+                        </p>
+                      )}
                     </div>
                     <div className="flex space-x-2">
                       {user?.role === 'management' ? (
                         <>
+                          {!isVoided(doc) && (
+                            <button
+                              onClick={() => {
+                                setSelectedDocument(doc);
+                                setShowAssignModal(true);
+                                loadUsers();
+                              }}
+                              className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                            >
+                              Assign
+                            </button>
+                          )}
+                          {doc.status === 'pending' && (
+                            <button
+                              onClick={() => handleSendReminder(doc)}
+                              disabled={reminding === doc.id}
+                              className="px-4 py-2 text-sm bg-yellow-100 text-yellow-800 rounded hover:bg-yellow-200 disabled:opacity-50"
+                            >
+                              {reminding === doc.id ? 'Sending...' : 'Send Reminder Now'}
+                            </button>
+                          )}
                           <button
-                            onClick={() => {
-                              setSelectedDocument(doc);
-                              setShowAssignModal(true);
-                              loadUsers();
-                            }}
-                            className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
+                            onClick={() => navigate(`/documents/${doc.id}`)}
+                            className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
                           >
-                            Assign
+                            Prepare Fields
                           </button>
                           <button
-                            onClick={() => navigate(`/documents/${doc.id}`)}
+                            onClick={() => navigate(`/documents/${doc.id}/preview`)}
                             className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
                           >
                             View
                           </button>
+                          <button
+                            onClick={() => navigate(`/documents/${doc.id}/audit`)}
+                            className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                          >
+                            Audit Trail
+                          </button>
+                          {canVoid(doc) && (
+                            <button
+                              onClick={() => setVoidTarget(doc)}
+                              className="px-4 py-2 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200"
+                            >
+                              Void
+                            </button>
+                          )}
                         </>
-                      ) : (
+                      ) : !isVoided(doc) && (
                         <button
                           onClick={() => navigate(`/documents/${doc.id}/sign`)}
                           className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700"
                         >
-                          {doc.recipient_status === 'signed' ? 'View' : 'Sign'}
+                          {doc.recipient_status === 'signed' || doc.recipient_status === 'declined' ? 'View' : 'Sign'}
                         </button>
                       )}
                     </div>
@@ -1062,6 +1385,29 @@ export function Dashboard() {
                 </p>
               </div>
 
+              {/* Signing Order */}
+              <div className="mb-4">
+                <label className="flex items-center space-x-2 text-sm font-medium text-gray-700 mb-2">
+                  <input
+                    type="checkbox"
+                    checked={useSigningOrder}
+                    onChange={(e) => setUseSigningOrder(e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span>Set signing order</span>
+                </label>
+                {useSigningOrder ? (
+                  <SigningOrderEditor
+                    steps={reconcileSigningOrder(signingSteps, getAssignEmails())}
+                    onChange={setSigningSteps}
+                  />
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    All recipients will receive the document at the same time.
+                  </p>
+                )}
+              </div>
+
               {/* Due Date */}
               <div className="mb-4">
                 <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -1075,16 +1421,75 @@ export function Dashboard() {
                 />
               </div>
 
+              {/* Reminders */}
+              <div className="mb-4">
+                <label className="flex items-center text-sm font-medium text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={remindersEnabled}
+                    onChange={(e) => setRemindersEnabled(e.target.checked)}
+                    className="mr-2"
+                  />
+                  Send automatic reminders
+                </label>
+                {remindersEnabled && (
+                  <div className="mt-2 ml-6 space-y-2 text-sm text-gray-700">
+                    <div className="flex items-center space-x-2">
+                      <span>Every</span>
+                      <input
+                        type="number"
+                        min={1}
+                        max={30}
+                        value={reminderRule.interval_days}
+                        onChange={(e) => setReminderRule({ ...reminderRule, interval_days: Math.max(1, Number(e.target.value) || 1) })}
+                        className="w-16 px-2 py-1 border border-gray-300 rounded-md"
+                      />
+                      <span>days until signed</span>
+                    </div>
+                    {dueDate ? (
+                      <>
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={reminderRule.daily_within_hours !== null}
+                            onChange={(e) => setReminderRule({
+                              ...reminderRule,
+                              daily_within_hours: e.target.checked ? DEFAULT_REMINDER_RULE.daily_within_hours : null,
+                            })}
+                          />
+                          <span>Then daily within</span>
+                          <input
+                            type="number"
+                            min={1}
+                            max={168}
+                            value={reminderRule.daily_within_hours ?? ''}
+                            disabled={reminderRule.daily_within_hours === null}
+                            onChange={(e) => setReminderRule({ ...reminderRule, daily_within_hours: Math.max(1, Number(e.target.value) || 1) })}
+                            className="w-16 px-2 py-1 border border-gray-300 rounded-md disabled:bg-gray-100"
+                          />
+                          <span>hours of the due date</span>
+                        </label>
+                        <label className="flex items-center space-x-2">
+                          <input
+                            type="checkbox"
+                            checked={reminderRule.escalate_to_sender}
+                            onChange={(e) => setReminderRule({ ...reminderRule, escalate_to_sender: e.target.checked })}
+                          />
+                          <span>Notify me when it becomes overdue</span>
+                        </label>
+                      </>
+                    ) : (
+                      <p className="text-xs text-gray-500">Set a due date to add daily reminders and overdue alerts.</p>
+                    )}
+                    <p className="text-xs text-gray-500">{describeReminderRule(reminderRule, !!dueDate)}</p>
+                  </div>
+                )}
+              </div>
+
               <div className="flex justify-end space-x-2">
                 <button
                   type="button"
-                  onClick={() => {
-                    setShowAssignModal(false);
-                    setSelectedDocument(null);
-                    setRecipientEmails('');
-                    setSelectedUsers([]);
-                    setDueDate('');
-                  }}
+                  onClick={resetAssignForm}
                   className="px-4 py-2 text-sm bg-gray-300 rounded hover:bg-gray-400"
                 >
                   Cancel
@@ -1101,6 +1506,26 @@ export function Dashboard() {
           </div>
         </div>
       )}
+
+      <UseTemplateModal
+        isOpen={showUseTemplateModal}
+        onClose={() => setShowUseTemplateModal(false)}
+        onCreated={() => {
+          loadDocuments();
+          loadStats();
+          loadActivity();
+        }}
+      />
+
+      {voidTarget && (
+        <VoidModal
+          isOpen
+          onClose={() => setVoidTarget(null)}
+          onVoided={handleVoided}
+          documentId={voidTarget.id}
+          documentTitle={voidTarget.title}
+        />
+      )}
     </div>
   );
 }
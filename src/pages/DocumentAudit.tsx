@@ -0,0 +1,212 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { format } from 'date-fns';
+import api, { getApiErrorMessage } from '../utils/api';
+import { formatActor, getAuditEventLabel } from '../utils/auditTrail';
+import type { AuditDocument, AuditEvent } from '../utils/auditTrail';
+import { appendCertificate, buildCompletionCertificate } from '../utils/completionCertificate';
+
+const downloadPdf = (bytes: Uint8Array, filename: string) => {
+  const url = window.URL.createObjectURL(new Blob([bytes as BlobPart], { type: 'application/pdf' }));
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  window.document.body.appendChild(link);
+  link.click();
+  window.document.body.removeChild(link);
+  window.URL.revokeObjectURL(url);
+};
+
+const getEventColor = (type: string) => {
+  switch (type) {
+    case 'signed':
+    case 'confirmed':
+      return 'bg-green-100 text-green-800';
+    case 'sent_back':
+    case 'reminder_sent':
+      return 'bg-orange-100 text-orange-800';
+    case 'overdue':
+    case 'declined':
+    case 'voided':
+      return 'bg-red-100 text-red-800';
+    case 'assigned':
+    case 'forwarded':
+      return 'bg-blue-100 text-blue-800';
+    default:
+      return 'bg-gray-100 text-gray-800';
+  }
+};
+
+export function DocumentAudit() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [document, setDocument] = useState<AuditDocument | null>(null);
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+
+  const loadAuditTrail = useCallback(async () => {
+    try {
+      const response = await api.get(`/documents/${id}/audit`);
+      setDocument(response.data.document);
+      setEvents(response.data.events || []);
+    } catch (error) {
+      console.error('❌ Failed to load audit trail:', error);
+      alert(getApiErrorMessage(error, 'Failed to load audit trail'));
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    if (id) {
+      loadAuditTrail();
+    }
+  }, [id, loadAuditTrail]);
+
+  const handleDownloadCertificate = async (appendToSigned: boolean) => {
+    if (!document) return;
+    setExporting(true);
+    try {
+      const certificate = await buildCompletionCertificate(document, events, new Date());
+      if (!appendToSigned) {
+        downloadPdf(certificate, `${document.title} - Certificate of Completion.pdf`);
+        return;
+      }
+      const response = await api.get(`/documents/${id}/download`, { responseType: 'blob' });
+      const signedBytes = await (response.data as Blob).arrayBuffer();
+      downloadPdf(await appendCertificate(signedBytes, certificate), `${document.title} - Signed with Certificate.pdf`);
+    } catch (error) {
+      console.error('❌ Failed to export certificate:', error);
+      alert(`Failed to export certificate: ${getApiErrorMessage(error)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading audit trail...</div>
+      </div>
+    );
+  }
+
+  if (!document) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-red-600">Document not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-100">
+      <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate(-1)}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            ← Back
+          </button>
+          <h1 className="text-xl font-bold">Audit Trail: {document.title}</h1>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => handleDownloadCertificate(false)}
+            disabled={exporting}
+            className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50 text-sm"
+          >
+            Download Certificate
+          </button>
+          {document.signed_file_path && (
+            <button
+              onClick={() => handleDownloadCertificate(true)}
+              disabled={exporting}
+              className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50 text-sm"
+            >
+              {exporting ? 'Exporting...' : 'Download Signed PDF with Certificate'}
+            </button>
+          )}
+        </div>
+      </nav>
+
+      <div className="max-w-6xl mx-auto p-6 space-y-6">
+        <div className="bg-white rounded-lg shadow p-6 grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+          <div>
+            <p className="text-gray-500">Status</p>
+            <p className="font-medium text-gray-900">{document.status}</p>
+          </div>
+          <div>
+            <p className="text-gray-500">Created</p>
+            <p className="font-medium text-gray-900">{format(new Date(document.created_at), 'PPpp')}</p>
+          </div>
+          {document.original_hash && (
+            <div className="md:col-span-2">
+              <p className="text-gray-500">Original SHA-256</p>
+              <p className="font-mono text-xs text-gray-900 break-all">{document.original_hash}</p>
+            </div>
+          )}
+          {document.signed_hash && (
+            <div className="md:col-span-2">
+              <p className="text-gray-500">Signed SHA-256</p>
+              <p className="font-mono text-xs text-gray-900 break-all">{document.signed_hash}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="bg-white rounded-lg shadow overflow-x-auto">
+          {events.length === 0 ? (
+            <p className="p-6 text-gray-500">No events recorded for this document.</p>
+          ) : (
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-gray-600">
+                <tr>
+                  <th className="px-4 py-3 font-medium">Event</th>
+                  <th className="px-4 py-3 font-medium">Actor</th>
+                  <th className="px-4 py-3 font-medium">Time</th>
+                  <th className="px-4 py-3 font-medium">IP / User agent</th>
+                  <th className="px-4 py-3 font-medium">Document hash</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {events.map(event => (
+                  <tr key={event.id} className="align-top">
+                    <td className="px-4 py-3">
+                      <span className={`px-2 py-1 rounded-full text-xs font-medium ${getEventColor(event.event_type)}`}>
+                        {getAuditEventLabel(event.event_type)}
+                      </span>
+                      {event.details && <p className="mt-1 text-xs text-gray-500">{event.details}</p>}
+                    </td>
+                    <td className="px-4 py-3 text-gray-900">{formatActor(event)}</td>
+                    <td className="px-4 py-3 text-gray-700 whitespace-nowrap">
+                      {format(new Date(event.created_at), 'PPpp')}
+                    </td>
+                    <td className="px-4 py-3 text-gray-700">
+                      <p>{event.ip_address || '—'}</p>
+                      {event.user_agent && (
+                        <p className="text-xs text-gray-500 max-w-xs truncate" title={event.user_agent}>
+                          {event.user_agent}
+                        </p>
+                      )}
+                    </td>
+                    <td className="px-4 py-3">
+                      {event.document_hash ? (
+                        <span className="font-mono text-xs text-gray-700" title={event.document_hash}>
+                          {event.document_hash.slice(0, 12)}…
+                        </span>
+                      ) : (
+                        '—'
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
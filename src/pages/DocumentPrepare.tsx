@@ -0,0 +1,111 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { FieldPlacementEditor } from '../components/FieldPlacementEditor';
+import { useFieldLayout } from '../hooks/useFieldLayout';
+import { parseStoredField, serializeField } from '../utils/documentFields';
+import api, { getApiErrorMessage } from '../utils/api';
+
+interface DocumentData {
+  id: number;
+  title: string;
+  status: string;
+}
+
+export function DocumentPrepare() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [document, setDocument] = useState<DocumentData | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [recipients, setRecipients] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { fields, setFields, pdfUrl, pageGeometry, loadLayout, handlePageGeometryLoad } = useFieldLayout();
+
+  const loadDocument = useCallback(async () => {
+    try {
+      const response = await api.get(`/documents/${id}`);
+      setDocument(response.data.document);
+
+      const loadedFields = await loadLayout(`/documents/${id}`, parseStoredField);
+      setRecipients(Array.from(new Set(loadedFields.map(f => f.recipient_email))));
+    } catch (error) {
+      console.error('❌ Failed to load document:', error);
+      alert(`Failed to load document: ${getApiErrorMessage(error)}`);
+      navigate('/');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, loadLayout, navigate]);
+
+  useEffect(() => {
+    if (id) {
+      loadDocument();
+    }
+  }, [id, loadDocument]);
+
+  const handleSave = async () => {
+    if (!pageGeometry) {
+      alert('Please wait for the document to finish loading');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.put(`/documents/${id}/fields`, {
+        fields: fields.map(field => serializeField(field, pageGeometry)),
+      });
+      alert('Fields saved successfully');
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to save fields'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading document...</div>
+      </div>
+    );
+  }
+
+  if (!document || !pdfUrl) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-red-600">Document not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col">
+      <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-xl font-bold">{document.title}</h1>
+          <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded">
+            Preparing
+          </span>
+        </div>
+      </nav>
+
+      <div className="flex-1 overflow-hidden">
+        <FieldPlacementEditor
+          pdfUrl={pdfUrl}
+          fields={fields}
+          onFieldsChange={setFields}
+          recipients={recipients}
+          onRecipientsChange={setRecipients}
+          onSave={handleSave}
+          saving={saving}
+          onPageGeometryLoad={handlePageGeometryLoad}
+        />
+      </div>
+    </div>
+  );
+}
@@ -1,19 +1,19 @@
-import { useState, useEffect, useMemo } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { Document, Page, pdfjs } from 'react-pdf';
-import 'react-pdf/dist/esm/Page/AnnotationLayer.css';
-import 'react-pdf/dist/esm/Page/TextLayer.css';
 import api from '../utils/api';
 import { useAuth } from '../context/AuthContext';
 import { ForwardModal } from '../components/ForwardModal';
 import { SendBackModal } from '../components/SendBackModal';
-
-// Configure PDF.js worker
-const PDFJS_VERSION = pdfjs.version;
-const WORKER_URL = '/pdf.worker.min.mjs';
-pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-console.log('📄 PDF.js API Version:', PDFJS_VERSION);
-console.log('📄 PDF.js Worker configured:', pdfjs.GlobalWorkerOptions.workerSrc);
+import { DocumentCompareModal } from '../components/DocumentCompareModal';
+import { VoidModal } from '../components/VoidModal';
+import { PDFViewer } from '../components/PDFViewer';
+import { PageThumbnails } from '../components/PageThumbnails';
+import type { PDFViewerHandle } from '../components/PDFViewer';
+import type { LoadedDocument } from '../utils/pdfCoordinates';
+import { countFieldsByPage } from '../utils/documentFields';
+import { hashesMatch, sha256Hex } from '../utils/documentHash';
+import { canVoid, isVoided } from '../utils/voiding';
+import type { DocumentField } from '../utils/documentFields';
 
 interface DocumentData {
   id: number;
@@ -23,6 +23,26 @@ interface DocumentData {
   status: string;
   signer_name?: string;
   signer_email?: string;
+  // SHA-256 recorded by the server when the file was uploaded / signed
+  original_hash?: string;
+  signed_hash?: string;
+  void_reason?: string;
+  voided_at?: string;
+}
+
+// Only the field values are read from a submission here
+interface Submission {
+  id: number;
+  submitted_at: string;
+  assigned_fields?: { id: string | number; value: string }[];
+}
+
+// Statuses where the recipient has submitted their field values
+const SUBMITTED_STATUSES = ['waiting_confirmation', 'signed'];
+
+interface FileHashes {
+  original?: string;
+  signed?: string;
 }
 
 export function DocumentPreview() {
@@ -33,12 +53,18 @@ export function DocumentPreview() {
   const [loading, setLoading] = useState(true);
   const [pdfUrl, setPdfUrl] = useState('');
   const [numPages, setNumPages] = useState(0);
+  const [pdfDocument, setPdfDocument] = useState<LoadedDocument | null>(null);
+  const [fields, setFields] = useState<DocumentField[]>([]);
+  const [hasSubmittedValues, setHasSubmittedValues] = useState(false);
+  const [fileHashes, setFileHashes] = useState<FileHashes>({});
   const [pageNumber, setPageNumber] = useState(1);
   const [scale, setScale] = useState(1.0);
-  const [workerReady, setWorkerReady] = useState(false);
   const [showForwardModal, setShowForwardModal] = useState(false);
   const [showSendBackModal, setShowSendBackModal] = useState(false);
+  const [showCompareModal, setShowCompareModal] = useState(false);
+  const [showVoidModal, setShowVoidModal] = useState(false);
   const [confirming, setConfirming] = useState(false);
+  const viewerRef = useRef<PDFViewerHandle | null>(null);
 
   useEffect(() => {
     if (id) {
@@ -46,30 +72,6 @@ export function DocumentPreview() {
     }
   }, [id]);
 
-  // Ensure PDF.js worker is properly initialized
-  useEffect(() => {
-    const initializeWorker = async () => {
-      pdfjs.GlobalWorkerOptions.workerSrc = WORKER_URL;
-      console.log('📄 PDF.js Worker URL set:', pdfjs.GlobalWorkerOptions.workerSrc);
-      
-      try {
-        const response = await fetch(WORKER_URL, { method: 'HEAD' });
-        if (response.ok) {
-          console.log('✅ PDF.js worker file is accessible');
-          setWorkerReady(true);
-        } else {
-          console.error('❌ PDF.js worker file not accessible:', response.status);
-          setWorkerReady(true); // Still try to proceed
-        }
-      } catch (error) {
-        console.error('❌ Failed to verify worker file:', error);
-        setWorkerReady(true); // Still try to proceed
-      }
-    };
-    
-    initializeWorker();
-  }, []);
-
   const loadDocument = async () => {
     try {
       console.log(`📄 Loading document ${id} for preview...`);
@@ -93,6 +95,24 @@ export function DocumentPreview() {
       }
       
       setDocument(doc);
+
+      // Only used for the thumbnail badges, so a document without fields is fine. The layout has
+      // no recipient values: once submitted they come from the latest submission, and until then
+      // the thumbnails don't mark required fields as unfilled.
+      try {
+        const fieldsResponse = await api.get(`/documents/${id}/fields`);
+        const layout: DocumentField[] = (fieldsResponse.data.fields || []).map((field: DocumentField) => ({
+          ...field,
+          required: !!field.required,
+        }));
+        const submittedValues = SUBMITTED_STATUSES.includes(doc.status) ? await loadSubmittedValues() : null;
+        setFields(submittedValues
+          ? layout.map(field => ({ ...field, value: submittedValues[field.id.toString()] ?? '' }))
+          : layout);
+        setHasSubmittedValues(!!submittedValues);
+      } catch (error) {
+        console.log('No fields defined for this document:', error);
+      }
       
       // Use signed file if available, otherwise use original
       const filePath = doc.signed_file_path || doc.original_file_path;
@@ -112,6 +132,7 @@ export function DocumentPreview() {
       const url = URL.createObjectURL(blob);
       console.log('📄 PDF URL created:', url);
       setPdfUrl(url);
+      computeFileHashes(blob, !!doc.signed_file_path);
     } catch (error: any) {
       console.error('❌ Failed to load document:', error);
       console.error('Error details:', error.response?.data || error.message);
@@ -122,21 +143,48 @@ export function DocumentPreview() {
     }
   };
 
-  const onDocumentLoadSuccess = ({ numPages }: { numPages: number }) => {
-    setNumPages(numPages);
-    console.log('✅ PDF document loaded successfully, pages:', numPages);
-    // Reset to page 1 if current page is out of bounds
-    if (pageNumber > numPages) {
-      setPageNumber(1);
+  // Field values from the latest submission by field id, or null if there are none to read
+  const loadSubmittedValues = async (): Promise<Record<string, string> | null> => {
+    try {
+      const response = await api.get(`/documents/${id}/submissions`);
+      const submissions: Submission[] = response.data.submissions || [];
+      const latest = submissions[submissions.length - 1];
+      if (!latest?.assigned_fields) return null;
+      return Object.fromEntries(latest.assigned_fields.map(field => [field.id.toString(), field.value]));
+    } catch (error) {
+      console.log('No submitted values for this document:', error);
+      return null;
     }
   };
 
-  // Memoize pdfOptions to prevent unnecessary re-renders
-  const pdfOptions = useMemo(() => ({
-    cMapUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/cmaps/`,
-    cMapPacked: true,
-    standardFontDataUrl: `https://cdn.jsdelivr.net/npm/pdfjs-dist@${pdfjs.version}/standard_fonts/`,
-  }), []);
+  // Hashes the files as downloaded, so they can be checked against what the server recorded
+  const computeFileHashes = async (downloaded: Blob, isSigned: boolean) => {
+    try {
+      if (!isSigned) {
+        setFileHashes({ original: await sha256Hex(downloaded) });
+        return;
+      }
+      const signed = await sha256Hex(downloaded);
+      setFileHashes({ signed });
+      const originalResponse = await api.get(`/documents/${id}/download`, {
+        params: { version: 'original' },
+        responseType: 'blob',
+      });
+      setFileHashes({ signed, original: await sha256Hex(originalResponse.data) });
+    } catch (error) {
+      console.error('❌ Failed to compute document hashes:', error);
+    }
+  };
+
+  const onDocumentLoadSuccess = (pdf: LoadedDocument) => {
+    setNumPages(pdf.numPages);
+    setPdfDocument(pdf);
+    console.log('✅ PDF document loaded successfully, pages:', pdf.numPages);
+  };
+
+  const goToPage = (page: number) => {
+    viewerRef.current?.scrollToPage(Math.max(1, Math.min(numPages, page)));
+  };
 
   const handleConfirm = async () => {
     if (!confirm('Are you sure you want to confirm this signed document?')) {
@@ -185,12 +233,16 @@ export function DocumentPreview() {
     alert('Document forwarded successfully!');
   };
 
-  const handleSendBack = async (note: string) => {
-    await api.post(`/documents/${id}/send-back`, { note });
+  const handleSentBack = () => {
     alert('Document sent back to signer successfully!');
     navigate('/');
   };
 
+  const handleVoided = () => {
+    alert('Document voided. Recipients no longer have access.');
+    navigate('/');
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -223,8 +275,37 @@ export function DocumentPreview() {
               Signed Document
             </span>
           )}
+          {isVoided(document) && (
+            <span className="px-2 py-1 bg-gray-200 text-gray-700 text-xs rounded">
+              Voided
+            </span>
+          )}
         </div>
         <div className="flex items-center space-x-4">
+          {user?.role === 'management' && (
+            <button
+              onClick={() => navigate(`/documents/${id}/audit`)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 text-sm"
+            >
+              Audit Trail
+            </button>
+          )}
+          {document.signed_file_path && (
+            <button
+              onClick={() => setShowCompareModal(true)}
+              className="px-4 py-2 bg-gray-200 text-gray-700 rounded hover:bg-gray-300 text-sm"
+            >
+              Compare Versions
+            </button>
+          )}
+          {user?.role === 'management' && canVoid(document) && (
+            <button
+              onClick={() => setShowVoidModal(true)}
+              className="px-4 py-2 bg-red-100 text-red-700 rounded hover:bg-red-200 text-sm"
+            >
+              Void
+            </button>
+          )}
           {/* Action Buttons - Only show for management users and waiting_confirmation status */}
           {user?.role === 'management' && document.status === 'waiting_confirmation' && (
             <div className="flex items-center space-x-2">
@@ -275,103 +356,96 @@ export function DocumentPreview() {
           </button>
         </div>
       </nav>
+
+      {isVoided(document) && (
+        <div className="bg-gray-100 border-l-4 border-gray-400 p-4 mx-4 mt-2 text-sm text-gray-700">
+          <p className="font-semibold">
+            This document was voided{document.voided_at && ` on ${new Date(document.voided_at).toLocaleDateString()}`}.
+          </p>
+          {document.void_reason && <p className="mt-1 whitespace-pre-wrap">{document.void_reason}</p>}
+        </div>
+      )}
       
-      <div className="flex-1 overflow-auto p-4 bg-gray-100">
-        <div className="mb-4 flex items-center justify-between bg-white p-2 rounded shadow">
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setPageNumber(Math.max(1, pageNumber - 1))}
-              disabled={pageNumber <= 1}
-              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
-            >
-              Previous
-            </button>
-            <span className="text-sm">
-              Page {pageNumber} of {numPages}
-            </span>
-            <button
-              onClick={() => setPageNumber(Math.min(numPages, pageNumber + 1))}
-              disabled={pageNumber >= numPages}
-              className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
-            >
-              Next
-            </button>
-          </div>
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={() => setScale(Math.max(0.5, scale - 0.1))}
-              className="px-3 py-1 bg-gray-200 rounded"
-            >
-              -
-            </button>
-            <span className="text-sm">{Math.round(scale * 100)}%</span>
-            <button
-              onClick={() => setScale(Math.min(2, scale + 0.1))}
-              className="px-3 py-1 bg-gray-200 rounded"
-            >
-              +
-            </button>
-            <button
-              onClick={() => setScale(1.0)}
-              className="px-3 py-1 bg-gray-200 rounded"
-            >
-              Fit
-            </button>
+      <div className="flex-1 flex min-h-0">
+        <PageThumbnails
+          pdf={pdfDocument}
+          currentPage={pageNumber}
+          onSelect={goToPage}
+          fieldCounts={countFieldsByPage(fields)}
+          showRequiredUnfilled={hasSubmittedValues}
+        />
+        <div className="flex-1 flex flex-col min-w-0 px-4 pt-4 bg-gray-100">
+          <div className="mb-4 flex items-center justify-between bg-white p-2 rounded shadow">
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => goToPage(pageNumber - 1)}
+                disabled={pageNumber <= 1}
+                className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+              >
+                Previous
+              </button>
+              <span className="text-sm">
+                Page {pageNumber} of {numPages}
+              </span>
+              <button
+                onClick={() => goToPage(pageNumber + 1)}
+                disabled={pageNumber >= numPages}
+                className="px-3 py-1 bg-gray-200 rounded disabled:opacity-50"
+              >
+                Next
+              </button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={() => setScale(Math.max(0.5, scale - 0.1))}
+                className="px-3 py-1 bg-gray-200 rounded"
+              >
+                -
+              </button>
+              <span className="text-sm">{Math.round(scale * 100)}%</span>
+              <button
+                onClick={() => setScale(Math.min(2, scale + 0.1))}
+                className="px-3 py-1 bg-gray-200 rounded"
+              >
+                +
+              </button>
+              <button
+                onClick={() => setScale(1.0)}
+                className="px-3 py-1 bg-gray-200 rounded"
+              >
+                Fit
+              </button>
+            </div>
           </div>
-        </div>
 
-        <div className="flex justify-center">
-          <div className="relative">
-            {!workerReady ? (
-              <div className="text-center p-8">
-                <div className="text-lg mb-2">Initializing PDF.js worker...</div>
-                <div className="text-sm text-gray-500">Please wait</div>
-              </div>
-            ) : pdfUrl ? (
-              <Document
-                file={pdfUrl}
-                onLoadSuccess={onDocumentLoadSuccess}
-                onLoadError={(error) => {
-                  console.error('❌ PDF load error:', error);
-                  alert(`Failed to load PDF document: ${error.message || 'Unknown error'}. Please refresh the page and try again.`);
-                }}
-                loading={<div className="text-center p-8">Loading PDF...</div>}
-                error={
-                  <div className="text-center p-8 text-red-600">
-                    <p className="mb-2">Failed to load PDF file.</p>
-                    <button
-                      onClick={() => window.location.reload()}
-                      className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
-                    >
-                      Reload Page
-                    </button>
-                  </div>
-                }
-                options={pdfOptions}
-              >
-                {numPages > 0 && pageNumber > 0 && pageNumber <= numPages && (
-                  <div className="mb-4">
-                    <Page
-                      pageNumber={pageNumber}
-                      scale={scale}
-                      renderTextLayer={true}
-                      renderAnnotationLayer={true}
-                      onLoadError={(error) => {
-                        console.error(`❌ Error loading page ${pageNumber}:`, error);
-                      }}
-                      error={
-                        <div className="text-center p-4 text-red-600 bg-red-50 border border-red-200 rounded">
-                          <p>Failed to load page {pageNumber}</p>
-                        </div>
-                      }
-                    />
-                  </div>
+          <PDFViewer
+            ref={viewerRef}
+            file={pdfUrl}
+            scale={scale}
+            className="flex-1 min-h-0"
+            onLoadSuccess={onDocumentLoadSuccess}
+            onPageChange={setPageNumber}
+          />
+
+          <div className="my-2 bg-white p-2 rounded shadow text-xs space-y-1">
+            {([
+              ['Original', fileHashes.original, document.original_hash],
+              ['Signed', fileHashes.signed, document.signed_hash],
+            ] as const).filter(([, computed]) => computed).map(([label, computed, recorded]) => (
+              <div key={label} className="flex items-center gap-2">
+                <span className="text-gray-600 w-28 shrink-0">{label} SHA-256</span>
+                <span className="font-mono text-gray-900 truncate" title={computed}>{computed}</span>
+                {!recorded ? (
+                  <span className="text-gray-500 shrink-0">No recorded hash</span>
+                ) : hashesMatch(computed!, recorded) ? (
+                  <span className="text-green-700 shrink-0">✓ Matches recorded hash</span>
+                ) : (
+                  <span className="text-red-700 font-medium shrink-0">⚠ Does not match recorded hash</span>
                 )}
-              </Document>
-            ) : (
-              <div className="text-center p-8 text-gray-500">
-                No PDF loaded. Please wait...
               </div>
+            ))}
+            {!fileHashes.original && !fileHashes.signed && (
+              <span className="text-gray-500">Computing document fingerprint…</span>
             )}
           </div>
         </div>
@@ -388,10 +462,25 @@ export function DocumentPreview() {
       <SendBackModal
         isOpen={showSendBackModal}
         onClose={() => setShowSendBackModal(false)}
-        onSendBack={handleSendBack}
+        onSentBack={handleSentBack}
+        documentId={id!}
         documentTitle={document.title}
         signerName={document.signer_name || 'Signer'}
       />
+
+      <DocumentCompareModal
+        isOpen={showCompareModal}
+        onClose={() => setShowCompareModal(false)}
+        documentId={id!}
+      />
+
+      <VoidModal
+        isOpen={showVoidModal}
+        onClose={() => setShowVoidModal(false)}
+        onVoided={handleVoided}
+        documentId={id!}
+        documentTitle={document.title}
+      />
     </div>
   );
 }
@@ -3,6 +3,10 @@ import { useParams, useNavigate } from 'react-router-dom';
 import { PDFSigningInterface } from '../components/PDFSigningInterface';
 import api from '../utils/api';
 import { useAuth } from '../context/AuthContext';
+import { isVoided } from '../utils/voiding';
+import { deleteLocalDraft } from '../utils/draftStorage';
+import { DeclineModal } from '../components/DeclineModal';
+import type { MergeData } from '../utils/mergeFields';
 
 interface Document {
   id: number;
@@ -12,6 +16,12 @@ interface Document {
   status: string;
   recipient_status?: string;
   revision_note?: string;
+  uploaded_by_name?: string;
+  void_reason?: string;
+  voided_at?: string;
+  recipient_company?: string;
+  // Custom merge values set by the sender, e.g. from a bulk send CSV
+  merge_data?: Record<string, string>;
 }
 
 export function DocumentSign() {
@@ -23,6 +33,7 @@ export function DocumentSign() {
   const [pdfUrl, setPdfUrl] = useState('');
   const [isReadOnly, setIsReadOnly] = useState(false);
   const [revisionNote, setRevisionNote] = useState<string | null>(null);
+  const [showDeclineModal, setShowDeclineModal] = useState(false);
 
   useEffect(() => {
     if (id) {
@@ -37,9 +48,14 @@ export function DocumentSign() {
       const doc = response.data.document;
       console.log('📄 Document data:', doc);
       setDocument(doc);
+
+      // Access was revoked, so there's nothing to load; the voided screen is shown instead
+      if (isVoided(doc)) {
+        return;
+      }
       
-      // Check if document is already signed
-      if (doc.recipient_status === 'signed' || doc.status === 'signed') {
+      // Check if document is already signed or was declined
+      if (doc.recipient_status === 'signed' || doc.status === 'signed' || doc.recipient_status === 'declined') {
         setIsReadOnly(true);
       }
 
@@ -78,6 +94,11 @@ export function DocumentSign() {
       console.log('📄 PDF URL created:', url);
       setPdfUrl(url);
     } catch (error: any) {
+      // The server answers 410 once the sender has voided the document
+      if (error.response?.status === 410 && error.response.data?.document) {
+        setDocument({ ...error.response.data.document, status: 'voided' });
+        return;
+      }
       console.error('❌ Failed to load document:', error);
       console.error('Error details:', error.response?.data || error.message);
       alert(`Failed to load document: ${error.response?.data?.error || error.message}`);
@@ -98,6 +119,12 @@ export function DocumentSign() {
     navigate('/');
   };
 
+  const handleDeclined = async () => {
+    await deleteLocalDraft(parseInt(id!)).catch((error) => console.warn('Could not clear local draft:', error));
+    alert('You declined to sign this document. The sender has been notified.');
+    navigate('/');
+  };
+
   if (loading) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -106,6 +133,34 @@ export function DocumentSign() {
     );
   }
 
+  if (document && isVoided(document)) {
+    return (
+      <div className="min-h-screen bg-gray-50 flex items-center justify-center px-4">
+        <div className="bg-white rounded-lg shadow max-w-lg w-full p-8 text-center">
+          <div className="text-5xl text-gray-400 mb-4">⊘</div>
+          <h2 className="text-2xl font-bold text-gray-900">This document was voided</h2>
+          <p className="mt-2 text-gray-600">
+            {document.uploaded_by_name || 'The sender'} recalled "{document.title}"
+            {document.voided_at && ` on ${new Date(document.voided_at).toLocaleDateString()}`}.
+            It can no longer be viewed or signed.
+          </p>
+          {document.void_reason && (
+            <div className="mt-4 p-3 bg-gray-100 border border-gray-300 rounded text-left">
+              <p className="text-xs font-semibold text-gray-700 mb-1">Reason:</p>
+              <p className="text-sm text-gray-700 whitespace-pre-wrap">{document.void_reason}</p>
+            </div>
+          )}
+          <button
+            onClick={() => navigate('/')}
+            className="mt-6 px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700"
+          >
+            Back to Dashboard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   if (!document || !pdfUrl) {
     return (
       <div className="min-h-screen flex items-center justify-center">
@@ -114,6 +169,14 @@ export function DocumentSign() {
     );
   }
 
+  const mergeData: MergeData = {
+    recipient_name: user?.full_name,
+    recipient_email: user?.email,
+    recipient_company: document.recipient_company,
+    document_title: document.title,
+    custom: document.merge_data,
+  };
+
   return (
     <div className="h-screen flex flex-col">
       <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
@@ -141,11 +204,15 @@ export function DocumentSign() {
             </div>
             <span className="text-gray-700">{user?.full_name}</span>
           </button>
-          {isReadOnly && (
+          {isReadOnly && (document.recipient_status === 'declined' ? (
+            <span className="px-2 py-1 bg-red-100 text-red-800 text-xs rounded">
+              Declined
+            </span>
+          ) : (
             <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded">
               Signed
             </span>
-          )}
+          ))}
         </div>
       </nav>
 
@@ -174,8 +241,19 @@ export function DocumentSign() {
         pdfUrl={pdfUrl}
         onSaveDraft={handleSaveDraft}
         onSubmit={handleSubmit}
+        onDecline={() => setShowDeclineModal(true)}
+        mergeData={mergeData}
         isReadOnly={isReadOnly}
       />
+
+      <DeclineModal
+        isOpen={showDeclineModal}
+        onClose={() => setShowDeclineModal(false)}
+        onDeclined={handleDeclined}
+        documentId={id!}
+        documentTitle={document.title}
+        senderName={document.uploaded_by_name || 'the sender'}
+      />
     </div>
   );
 }
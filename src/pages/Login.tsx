@@ -123,6 +123,14 @@ export function Login() {
                 Create one
               </Link>
             </p>
+            <p className="mt-2 text-sm text-gray-600">
+              <Link
+                to="/verify"
+                className="font-medium text-blue-600 hover:text-blue-500"
+              >
+                Verify a signed document
+              </Link>
+            </p>
           </div>
         </form>
       </div>
@@ -2,6 +2,7 @@ import { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '../context/AuthContext';
 import api from '../utils/api';
+import { SavedSignatureLibrary } from '../components/SavedSignatureLibrary';
 
 export function Profile() {
   const { user, logout } = useAuth();
@@ -149,6 +150,9 @@ export function Profile() {
               </div>
             </div>
 
+            {/* Saved Signatures Section */}
+            <SavedSignatureLibrary />
+
             {/* Change Password Section */}
             <div className="border-t border-gray-200 pt-6">
               <h3 className="text-lg font-medium text-gray-900 mb-4">Change Password</h3>
@@ -0,0 +1,115 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useParams, useNavigate } from 'react-router-dom';
+import { FieldPlacementEditor } from '../components/FieldPlacementEditor';
+import { useFieldLayout } from '../hooks/useFieldLayout';
+import { parseTemplateField, serializeTemplateField } from '../utils/templates';
+import type { DocumentTemplate } from '../utils/templates';
+import api, { getApiErrorMessage } from '../utils/api';
+
+// Field layout for a template. Same editor as preparing a document, with roles in place of emails.
+export function TemplatePrepare() {
+  const { id } = useParams<{ id: string }>();
+  const navigate = useNavigate();
+  const [template, setTemplate] = useState<DocumentTemplate | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [roles, setRoles] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+  const { fields, setFields, pdfUrl, pageGeometry, loadLayout, handlePageGeometryLoad } = useFieldLayout();
+
+  const loadTemplate = useCallback(async () => {
+    try {
+      const response = await api.get(`/templates/${id}`);
+      const loadedTemplate: DocumentTemplate = response.data.template;
+      setTemplate(loadedTemplate);
+
+      const loadedFields = await loadLayout(`/templates/${id}`, parseTemplateField);
+      // Roles without fields yet are kept, so a layout can be saved in several passes
+      setRoles(Array.from(new Set([...(loadedTemplate.roles || []), ...loadedFields.map(f => f.recipient_email)])));
+    } catch (error) {
+      console.error('❌ Failed to load template:', error);
+      alert(`Failed to load template: ${getApiErrorMessage(error)}`);
+      navigate('/templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [id, loadLayout, navigate]);
+
+  useEffect(() => {
+    if (id) {
+      loadTemplate();
+    }
+  }, [id, loadTemplate]);
+
+  const handleSave = async () => {
+    if (!pageGeometry) {
+      alert('Please wait for the template to finish loading');
+      return;
+    }
+    if (roles.length === 0) {
+      alert('Add at least one role, for example "Employee"');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await api.put(`/templates/${id}/fields`, {
+        roles,
+        fields: fields.map(field => serializeTemplateField(field, pageGeometry)),
+      });
+      alert('Template saved successfully');
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to save template'));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading template...</div>
+      </div>
+    );
+  }
+
+  if (!template || !pdfUrl) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg text-red-600">Template not found</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-screen flex flex-col">
+      <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/templates')}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            ← Back to Templates
+          </button>
+          <h1 className="text-xl font-bold">{template.name}</h1>
+          <span className="px-2 py-1 bg-purple-100 text-purple-800 text-xs rounded">
+            Template
+          </span>
+        </div>
+      </nav>
+
+      <div className="flex-1 overflow-hidden">
+        <FieldPlacementEditor
+          pdfUrl={pdfUrl}
+          fields={fields}
+          onFieldsChange={setFields}
+          recipients={roles}
+          onRecipientsChange={setRoles}
+          recipientKind="role"
+          onSave={handleSave}
+          saving={saving}
+          onPageGeometryLoad={handlePageGeometryLoad}
+        />
+      </div>
+    </div>
+  );
+}
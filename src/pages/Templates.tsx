@@ -0,0 +1,227 @@
+import { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { formatDistanceToNow } from 'date-fns';
+import api, { getApiErrorMessage } from '../utils/api';
+import { UseTemplateModal } from '../components/UseTemplateModal';
+import type { DocumentTemplate } from '../utils/templates';
+
+export function Templates() {
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<DocumentTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showUploadModal, setShowUploadModal] = useState(false);
+  const [uploadName, setUploadName] = useState('');
+  const [uploadFile, setUploadFile] = useState<File | null>(null);
+  const [uploading, setUploading] = useState(false);
+  const [useTemplateId, setUseTemplateId] = useState<number | null>(null);
+  const [deleting, setDeleting] = useState<number | null>(null);
+
+  useEffect(() => {
+    loadTemplates();
+  }, []);
+
+  const loadTemplates = async () => {
+    try {
+      const response = await api.get('/templates');
+      setTemplates(response.data.templates || []);
+    } catch (error) {
+      console.error('Failed to load templates:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUpload = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!uploadFile) return;
+
+    setUploading(true);
+    try {
+      const formData = new FormData();
+      formData.append('document', uploadFile);
+      formData.append('name', uploadName || uploadFile.name);
+
+      const response = await api.post('/templates', formData, {
+        headers: { 'Content-Type': 'multipart/form-data' },
+      });
+
+      setShowUploadModal(false);
+      setUploadName('');
+      setUploadFile(null);
+      // Straight to the layout, since a template without roles can't be used
+      navigate(`/templates/${response.data.template.id}`);
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Upload failed'));
+    } finally {
+      setUploading(false);
+    }
+  };
+
+  const handleDelete = async (template: DocumentTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"? Documents already created from it are not affected.`)) {
+      return;
+    }
+
+    setDeleting(template.id);
+    try {
+      await api.delete(`/templates/${template.id}`);
+      setTemplates(prev => prev.filter(t => t.id !== template.id));
+    } catch (error) {
+      alert(getApiErrorMessage(error, 'Failed to delete template'));
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="text-lg">Loading templates...</div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <nav className="bg-white shadow px-4 py-2 flex items-center justify-between">
+        <div className="flex items-center space-x-4">
+          <button
+            onClick={() => navigate('/')}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            ← Back to Dashboard
+          </button>
+          <h1 className="text-xl font-bold">Templates</h1>
+        </div>
+        <button
+          onClick={() => setShowUploadModal(true)}
+          className="px-4 py-2 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+        >
+          New Template
+        </button>
+      </nav>
+
+      <main className="max-w-5xl mx-auto p-6">
+        <div className="bg-white rounded-lg shadow divide-y divide-gray-200">
+          {templates.length === 0 ? (
+            <div className="px-6 py-12 text-center text-gray-500">
+              No templates yet. Upload a PDF you send often, place its fields and name its roles.
+            </div>
+          ) : (
+            templates.map(template => (
+              <div key={template.id} className="px-6 py-4 flex items-center justify-between hover:bg-gray-50">
+                <div className="flex-1">
+                  <h4 className="text-lg font-medium text-gray-900">{template.name}</h4>
+                  <p className="text-sm text-gray-500 mt-1">
+                    {template.field_count ?? 0} field(s)
+                    {template.created_by_name && ` • Created by ${template.created_by_name}`}
+                    {` • ${formatDistanceToNow(new Date(template.created_at), { addSuffix: true })}`}
+                  </p>
+                  <div className="flex flex-wrap gap-1 mt-2">
+                    {template.roles.length === 0 ? (
+                      <span className="text-xs text-red-600">No roles yet</span>
+                    ) : (
+                      template.roles.map(role => (
+                        <span key={role} className="px-2 py-0.5 rounded-full text-xs font-medium bg-purple-100 text-purple-800">
+                          {role}
+                        </span>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="flex space-x-2">
+                  <button
+                    onClick={() => setUseTemplateId(template.id)}
+                    disabled={template.roles.length === 0}
+                    className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                  >
+                    Use
+                  </button>
+                  <button
+                    onClick={() => navigate(`/templates/bulk-send?template=${template.id}`)}
+                    disabled={template.roles.length === 0}
+                    className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300 disabled:opacity-50"
+                  >
+                    Bulk Send
+                  </button>
+                  <button
+                    onClick={() => navigate(`/templates/${template.id}`)}
+                    className="px-4 py-2 text-sm bg-gray-200 text-gray-700 rounded hover:bg-gray-300"
+                  >
+                    Edit Layout
+                  </button>
+                  <button
+                    onClick={() => handleDelete(template)}
+                    disabled={deleting === template.id}
+                    className="px-4 py-2 text-sm bg-red-100 text-red-700 rounded hover:bg-red-200 disabled:opacity-50"
+                  >
+                    Delete
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </main>
+
+      {/* Upload Modal */}
+      {showUploadModal && (
+        <div className="fixed inset-0 bg-gray-600 bg-opacity-50 overflow-y-auto h-full w-full z-50">
+          <div className="relative top-20 mx-auto p-5 border w-96 shadow-lg rounded-md bg-white">
+            <h3 className="text-lg font-bold mb-4">New Template</h3>
+            <form onSubmit={handleUpload}>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={uploadName}
+                  onChange={(e) => setUploadName(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  placeholder="e.g. Employee NDA"
+                />
+              </div>
+              <div className="mb-4">
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  PDF File
+                </label>
+                <input
+                  type="file"
+                  accept=".pdf"
+                  onChange={(e) => setUploadFile(e.target.files?.[0] || null)}
+                  className="w-full px-3 py-2 border border-gray-300 rounded-md"
+                  required
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <button
+                  type="button"
+                  onClick={() => setShowUploadModal(false)}
+                  className="px-4 py-2 text-sm bg-gray-300 rounded hover:bg-gray-400"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  disabled={uploading || !uploadFile}
+                  className="px-4 py-2 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:opacity-50"
+                >
+                  {uploading ? 'Uploading...' : 'Upload & Place Fields'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      <UseTemplateModal
+        key={useTemplateId ?? 'none'}
+        isOpen={useTemplateId !== null}
+        onClose={() => setUseTemplateId(null)}
+        onCreated={() => navigate('/')}
+        templateId={useTemplateId ?? undefined}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,154 @@
+import { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { format } from 'date-fns';
+import api, { getApiErrorMessage } from '../utils/api';
+import { sha256Hex } from '../utils/documentHash';
+
+interface VerifiedSigner {
+  name: string;
+  email?: string;
+  signed_at: string;
+}
+
+interface VerifyResult {
+  match: boolean;
+  document?: {
+    title: string;
+    // Which recorded file the upload matched
+    matched_version: 'original' | 'signed';
+    uploaded_at: string;
+    confirmed_at?: string;
+    signers: VerifiedSigner[];
+  };
+}
+
+// Public page: the file is hashed in the browser and only the hash is sent for lookup
+export function VerifyDocument() {
+  const [fileName, setFileName] = useState('');
+  const [hash, setHash] = useState('');
+  const [result, setResult] = useState<VerifyResult | null>(null);
+  const [verifying, setVerifying] = useState(false);
+  const [dragOver, setDragOver] = useState(false);
+  const [error, setError] = useState('');
+
+  const verifyFile = async (file: File) => {
+    setError('');
+    setResult(null);
+    setFileName(file.name);
+    setVerifying(true);
+    try {
+      const fileHash = await sha256Hex(file);
+      setHash(fileHash);
+      const response = await api.post('/verify', { hash: fileHash });
+      setResult(response.data);
+    } catch (error) {
+      console.error('❌ Verification failed:', error);
+      setError(getApiErrorMessage(error, 'Could not verify the document. Please try again.'));
+    } finally {
+      setVerifying(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    setDragOver(false);
+    const file = e.dataTransfer.files[0];
+    if (file) {
+      verifyFile(file);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-12 px-4">
+      <div className="max-w-xl mx-auto space-y-6">
+        <div className="text-center">
+          <h2 className="text-3xl font-extrabold text-gray-900">Verify a Document</h2>
+          <p className="mt-2 text-sm text-gray-600">
+            Check whether a PDF is exactly the file that was uploaded or signed through EasySign.
+            The file never leaves your browser; only its SHA-256 fingerprint is checked.
+          </p>
+        </div>
+
+        <label
+          onDragOver={(e) => {
+            e.preventDefault();
+            setDragOver(true);
+          }}
+          onDragLeave={() => setDragOver(false)}
+          onDrop={handleDrop}
+          className={`block border-2 border-dashed rounded-lg p-10 text-center cursor-pointer bg-white ${
+            dragOver ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+        >
+          <input
+            type="file"
+            accept="application/pdf,.pdf"
+            className="sr-only"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) verifyFile(file);
+              e.target.value = '';
+            }}
+          />
+          <p className="text-gray-700 font-medium">Drop a PDF here or click to choose a file</p>
+          {fileName && <p className="mt-2 text-sm text-gray-500">{fileName}</p>}
+        </label>
+
+        {verifying && <p className="text-center text-gray-600">Verifying...</p>}
+
+        {error && (
+          <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
+            {error}
+          </div>
+        )}
+
+        {hash && !verifying && (
+          <p className="text-xs text-gray-500 break-all">
+            SHA-256: <span className="font-mono">{hash}</span>
+          </p>
+        )}
+
+        {result && (result.match && result.document ? (
+          <div className="bg-green-50 border border-green-200 rounded-lg p-6 space-y-3">
+            <p className="text-lg font-bold text-green-800">✓ Match</p>
+            <p className="text-sm text-green-900">
+              This file is the {result.document.matched_version === 'signed' ? 'signed' : 'original'} version of
+              "{result.document.title}", uploaded {format(new Date(result.document.uploaded_at), 'PPpp')}.
+            </p>
+            {result.document.signers.length > 0 && (
+              <div>
+                <p className="text-sm font-medium text-green-900">Signed by</p>
+                <ul className="mt-1 text-sm text-green-900 space-y-1">
+                  {result.document.signers.map((signer, index) => (
+                    <li key={index}>
+                      {signer.name}{signer.email && ` (${signer.email})`} on {format(new Date(signer.signed_at), 'PPpp')}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            {result.document.confirmed_at && (
+              <p className="text-sm text-green-900">
+                Confirmed {format(new Date(result.document.confirmed_at), 'PPpp')}
+              </p>
+            )}
+          </div>
+        ) : (
+          <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+            <p className="text-lg font-bold text-red-800">✗ No match</p>
+            <p className="mt-2 text-sm text-red-900">
+              This file doesn't match any document recorded by EasySign. It may have been altered
+              after it was downloaded, or it was never processed here.
+            </p>
+          </div>
+        ))}
+
+        <p className="text-center text-sm">
+          <Link to="/login" className="text-blue-600 hover:text-blue-800">
+            Back to sign in
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -31,5 +31,13 @@ api.interceptors.response.use(
   }
 );
 
+// The server's `error` message from a failed request, else `fallback`, else the error's own message
+export function getApiErrorMessage(error: unknown, fallback?: string): string {
+  if (axios.isAxiosError(error) && error.response?.data?.error) {
+    return error.response.data.error;
+  }
+  return fallback || (error instanceof Error ? error.message : String(error));
+}
+
 export default api;
 
@@ -0,0 +1,64 @@
+// Per-document audit events as returned by `/documents/:id/audit`
+
+export type AuditEventType =
+  | 'uploaded'
+  | 'assigned'
+  | 'viewed'
+  | 'draft_saved'
+  | 'signed'
+  | 'sent_back'
+  | 'forwarded'
+  | 'confirmed'
+  | 'reminder_sent'
+  | 'overdue'
+  | 'declined'
+  | 'voided';
+
+export interface AuditEvent {
+  id: number;
+  event_type: AuditEventType;
+  actor_name?: string;
+  actor_email?: string;
+  created_at: string;
+  ip_address?: string;
+  user_agent?: string;
+  // SHA-256 of the document file as it was when the event happened
+  document_hash?: string;
+  details?: string;
+}
+
+export interface AuditDocument {
+  id: number;
+  title: string;
+  status: string;
+  created_at: string;
+  original_hash?: string;
+  signed_hash?: string;
+  signed_file_path?: string;
+}
+
+export const AUDIT_EVENT_LABELS: Record<AuditEventType, string> = {
+  uploaded: 'Uploaded',
+  assigned: 'Assigned',
+  viewed: 'Viewed',
+  draft_saved: 'Draft saved',
+  signed: 'Signed',
+  sent_back: 'Sent back',
+  forwarded: 'Forwarded',
+  confirmed: 'Confirmed',
+  reminder_sent: 'Reminder sent',
+  overdue: 'Overdue',
+  declined: 'Declined',
+  voided: 'Voided',
+};
+
+export function getAuditEventLabel(type: string): string {
+  return AUDIT_EVENT_LABELS[type as AuditEventType] || type;
+}
+
+export function formatActor(event: AuditEvent): string {
+  if (event.actor_name && event.actor_email) {
+    return `${event.actor_name} <${event.actor_email}>`;
+  }
+  return event.actor_name || event.actor_email || 'System';
+}
@@ -0,0 +1,132 @@
+// Bulk send: one template sent individually to every row of a CSV. Each row needs an email;
+// `name` is optional and every other column is a custom merge value for the row's document.
+
+export interface BulkSendRow {
+  // Line in the file where the row starts, for reporting problems per row
+  line: number;
+  name: string;
+  email: string;
+  values: Record<string, string>;
+}
+
+// A row that can't be sent (bad or repeated email); it's reported alongside the sent ones
+export interface SkippedCsvRow {
+  line: number;
+  email: string;
+  reason: string;
+}
+
+export interface ParsedRecipientsCsv {
+  columns: string[];
+  rows: BulkSendRow[];
+  skipped: SkippedCsvRow[];
+  // Problems with the file as a whole, e.g. no email column
+  errors: string[];
+}
+
+export interface CsvRecord {
+  // Line the record starts on; quoted line breaks make a record span several lines
+  line: number;
+  cells: string[];
+}
+
+export type BulkSendStatus = 'queued' | 'sending' | 'sent' | 'failed' | 'skipped';
+
+const EMAIL_REGEX = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// RFC 4180 style: commas, quoted values with "" for a quote, and quoted line breaks
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let value = '';
+  let quoted = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        value += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        value += char;
+        if (char === '\n' || (char === '\r' && text[i + 1] !== '\n')) line++;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      record.push(value);
+      value = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(value);
+      records.push({ line: recordLine, cells: record });
+      record = [];
+      value = '';
+      line++;
+      recordLine = line;
+    } else {
+      value += char;
+    }
+  }
+  if (value !== '' || record.length > 0) {
+    record.push(value);
+    records.push({ line: recordLine, cells: record });
+  }
+  // Blank lines, e.g. a trailing newline from a spreadsheet export
+  return records.filter(r => r.cells.some(cell => cell.trim() !== ''));
+}
+
+export function parseRecipientsCsv(text: string): ParsedRecipientsCsv {
+  const [header, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!header) {
+    return { columns: [], rows: [], skipped: [], errors: ['The file is empty'] };
+  }
+
+  const columns = header.cells.map(column => column.trim());
+  const emailIndex = columns.findIndex(column => column.toLowerCase() === 'email');
+  const nameIndex = columns.findIndex(column => column.toLowerCase() === 'name');
+  if (emailIndex === -1) {
+    return { columns, rows: [], skipped: [], errors: ['The first line must be a header with an "email" column'] };
+  }
+
+  const rows: BulkSendRow[] = [];
+  const skipped: SkippedCsvRow[] = [];
+  const seen = new Set<string>();
+  records.forEach(({ line, cells: record }) => {
+    const email = (record[emailIndex] || '').trim().toLowerCase();
+    if (!EMAIL_REGEX.test(email)) {
+      skipped.push({ line, email, reason: `Invalid email "${email}"` });
+      return;
+    }
+    if (seen.has(email)) {
+      skipped.push({ line, email, reason: `${email} appears more than once` });
+      return;
+    }
+    seen.add(email);
+
+    const values: Record<string, string> = {};
+    columns.forEach((column, columnIndex) => {
+      if (columnIndex !== emailIndex && columnIndex !== nameIndex && column) {
+        values[column] = (record[columnIndex] || '').trim();
+      }
+    });
+    rows.push({ line, name: nameIndex === -1 ? '' : (record[nameIndex] || '').trim(), email, values });
+  });
+
+  return { columns, rows, skipped, errors: [] };
+}
+
+// Replaces {column} placeholders, e.g. "Offer letter - {name}"; unknown placeholders are kept
+export function fillTitlePattern(pattern: string, row: BulkSendRow): string {
+  return pattern.replace(/\{([^{}]+)\}/g, (placeholder, key: string) => {
+    const column = key.trim().toLowerCase();
+    if (column === 'name') return row.name || row.email;
+    if (column === 'email') return row.email;
+    const match = Object.keys(row.values).find(k => k.toLowerCase() === column);
+    return match !== undefined ? row.values[match] : placeholder;
+  });
+}
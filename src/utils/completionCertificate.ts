@@ -0,0 +1,145 @@
+import { PDFDocument, StandardFonts, rgb } from 'pdf-lib';
+import type { PDFFont, PDFPage } from 'pdf-lib';
+import { toEncodableText } from './pdfFlatten';
+import { formatActor, getAuditEventLabel } from './auditTrail';
+import type { AuditDocument, AuditEvent } from './auditTrail';
+
+// "Certificate of completion": a printable summary of the audit trail that can be kept on its
+// own or appended to the signed PDF.
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const LINE_HEIGHT = 13;
+
+interface Fonts {
+  regular: PDFFont;
+  bold: PDFFont;
+}
+
+// Splits text into lines that fit the width, breaking long words such as hashes
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    let candidate = line ? `${line} ${word}` : word;
+    if (font.widthOfTextAtSize(candidate, size) <= maxWidth) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    candidate = word;
+    while (font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      let cut = candidate.length - 1;
+      while (cut > 1 && font.widthOfTextAtSize(candidate.slice(0, cut), size) > maxWidth) cut--;
+      lines.push(candidate.slice(0, cut));
+      candidate = candidate.slice(cut);
+    }
+    line = candidate;
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Writes lines top-down, starting new pages as needed
+const createWriter = (pdfDoc: PDFDocument, fonts: Fonts) => {
+  let page: PDFPage = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y - height < MARGIN) {
+      page = pdfDoc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      y = PAGE_HEIGHT - MARGIN;
+    }
+  };
+
+  const text = (value: string, options: { size?: number; bold?: boolean; indent?: number; color?: number } = {}) => {
+    const { size = 10, bold = false, indent = 0, color = 0 } = options;
+    const font = bold ? fonts.bold : fonts.regular;
+    const lines = wrapText(toEncodableText(font, value), font, size, PAGE_WIDTH - 2 * MARGIN - indent);
+    for (const line of lines) {
+      ensureSpace(size + 3);
+      y -= size + 3;
+      page.drawText(line, { x: MARGIN + indent, y, size, font, color: rgb(color, color, color) });
+    }
+  };
+
+  const gap = (height = LINE_HEIGHT / 2) => {
+    y -= height;
+  };
+
+  const rule = () => {
+    ensureSpace(LINE_HEIGHT);
+    y -= LINE_HEIGHT / 2;
+    page.drawLine({
+      start: { x: MARGIN, y },
+      end: { x: PAGE_WIDTH - MARGIN, y },
+      thickness: 0.5,
+      color: rgb(0.7, 0.7, 0.7),
+    });
+    y -= LINE_HEIGHT / 2;
+  };
+
+  return { ensureSpace, text, gap, rule };
+};
+
+export async function buildCompletionCertificate(
+  document: AuditDocument,
+  events: AuditEvent[],
+  generatedAt: Date
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create();
+  pdfDoc.setTitle(`Certificate of Completion - ${document.title}`);
+  const fonts = {
+    regular: await pdfDoc.embedFont(StandardFonts.Helvetica),
+    bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+  };
+  const writer = createWriter(pdfDoc, fonts);
+
+  writer.text('Certificate of Completion', { size: 20, bold: true });
+  writer.gap();
+  writer.text(`Document: ${document.title}`, { size: 12, bold: true });
+  writer.text(`Document ID: ${document.id}`);
+  writer.text(`Status: ${document.status}`);
+  writer.text(`Created: ${new Date(document.created_at).toUTCString()}`);
+  if (document.original_hash) {
+    writer.text(`Original SHA-256: ${document.original_hash}`);
+  }
+  if (document.signed_hash) {
+    writer.text(`Signed SHA-256: ${document.signed_hash}`);
+  }
+  writer.text(`Certificate generated: ${generatedAt.toUTCString()}`, { color: 0.4 });
+  writer.rule();
+
+  writer.text('Audit Trail', { size: 14, bold: true });
+  writer.gap();
+  for (const event of events) {
+    writer.ensureSpace(LINE_HEIGHT * 4);
+    writer.text(`${getAuditEventLabel(event.event_type)} - ${new Date(event.created_at).toUTCString()}`, { bold: true });
+    writer.text(`By: ${formatActor(event)}`, { indent: 12 });
+    if (event.details) {
+      writer.text(event.details, { indent: 12 });
+    }
+    if (event.ip_address) {
+      writer.text(`IP address: ${event.ip_address}`, { indent: 12, size: 9, color: 0.3 });
+    }
+    if (event.user_agent) {
+      writer.text(`User agent: ${event.user_agent}`, { indent: 12, size: 9, color: 0.3 });
+    }
+    if (event.document_hash) {
+      writer.text(`Document SHA-256: ${event.document_hash}`, { indent: 12, size: 9, color: 0.3 });
+    }
+    writer.gap();
+  }
+
+  return pdfDoc.save();
+}
+
+// Signed PDF followed by the certificate pages
+export async function appendCertificate(pdfBytes: ArrayBuffer, certificateBytes: Uint8Array): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const certificate = await PDFDocument.load(certificateBytes);
+  const pages = await pdfDoc.copyPages(certificate, certificate.getPageIndices());
+  pages.forEach(page => pdfDoc.addPage(page));
+  return pdfDoc.save();
+}
@@ -0,0 +1,126 @@
+import type { SignatureStrokeData } from './signatureStrokes';
+import { toStoredRect } from './pdfCoordinates';
+import { normalizeMergeKey } from './mergeFields';
+import type { PageGeometryMap, StoredFieldRect } from './pdfCoordinates';
+
+// Sender-defined fields placed on a document before it is assigned.
+// In the editor coordinates are view units like signing fields; the API stores PDF points.
+
+export type FieldType = 'signature' | 'initials' | 'date' | 'name' | 'text' | 'checkbox';
+
+export interface DocumentField {
+  id: string;
+  field_type: FieldType;
+  // In a template's layout this holds the role name instead (see templates.ts)
+  recipient_email: string;
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+  required: boolean;
+  label?: string;
+  // Pre-filled from recipient or document data (see mergeFields.ts); locked ones can't be edited
+  merge_key?: string;
+  locked?: boolean;
+  // Filled in by the recipient while signing
+  value?: string;
+  imageUrl?: string;
+  stroke_data?: SignatureStrokeData;
+}
+
+export const FIELD_TYPES: { type: FieldType; label: string; width: number; height: number }[] = [
+  { type: 'signature', label: 'Signature', width: 150, height: 60 },
+  { type: 'initials', label: 'Initials', width: 80, height: 40 },
+  { type: 'date', label: 'Date', width: 120, height: 30 },
+  { type: 'name', label: 'Full Name', width: 200, height: 30 },
+  { type: 'text', label: 'Text', width: 200, height: 30 },
+  { type: 'checkbox', label: 'Checkbox', width: 24, height: 24 },
+];
+
+// Colors used to tell recipients apart while preparing a document
+export const RECIPIENT_COLORS = ['#3b82f6', '#f97316', '#10b981', '#a855f7', '#ef4444', '#eab308'];
+
+export function createFieldId(): string {
+  return `field-${Date.now()}-${Math.random()}`;
+}
+
+// A saved layout row as the API returns it: numeric id, and the rect in PDF points (or legacy view units)
+export type StoredField = Omit<DocumentField, 'id' | 'required'> & Partial<StoredFieldRect> & {
+  id?: number;
+  required?: boolean | number;
+};
+
+// The rect stays as stored until the page geometry is known (see fromStoredRect)
+export function parseStoredField(field: StoredField): DocumentField {
+  return {
+    ...field,
+    id: field.id?.toString() || createFieldId(),
+    required: !!field.required,
+  };
+}
+
+export function getFieldTypeLabel(type: FieldType): string {
+  return FIELD_TYPES.find(t => t.type === type)?.label || type;
+}
+
+export function isFieldComplete(field: DocumentField): boolean {
+  if (field.field_type === 'checkbox') {
+    return field.value === 'true';
+  }
+  return !!field.value && field.value.trim() !== '';
+}
+
+// Reading order: by page, then top to bottom, then left to right
+export function sortInDocumentOrder<T extends { page_number: number; x_coordinate: number; y_coordinate: number }>(
+  fields: T[]
+): T[] {
+  return [...fields].sort((a, b) =>
+    a.page_number - b.page_number || a.y_coordinate - b.y_coordinate || a.x_coordinate - b.x_coordinate
+  );
+}
+
+export interface PageFieldCounts {
+  signatures: number;
+  textFields: number;
+  requiredUnfilled: number;
+}
+
+// Per-page totals for page thumbnails. Signature and initials fields count as signatures;
+// `placed` adds signatures and text the signer put down freely.
+export function countFieldsByPage(
+  fields: DocumentField[],
+  placed: { signatures: { page_number: number }[]; textFields: { page_number: number }[] } = { signatures: [], textFields: [] }
+): Record<number, PageFieldCounts> {
+  const counts: Record<number, PageFieldCounts> = {};
+  const forPage = (page: number) => (counts[page] ??= { signatures: 0, textFields: 0, requiredUnfilled: 0 });
+
+  for (const field of fields) {
+    const page = forPage(field.page_number);
+    if (field.field_type === 'signature' || field.field_type === 'initials') {
+      page.signatures++;
+    } else {
+      page.textFields++;
+    }
+    if (field.required && !isFieldComplete(field)) {
+      page.requiredUnfilled++;
+    }
+  }
+  placed.signatures.forEach(sig => forPage(sig.page_number).signatures++);
+  placed.textFields.forEach(tf => forPage(tf.page_number).textFields++);
+  return counts;
+}
+
+// Shape sent to the API when saving a sender's field layout
+export function serializeField(field: DocumentField, pageGeometry: PageGeometryMap) {
+  const mergeKey = normalizeMergeKey(field.merge_key);
+  return {
+    field_type: field.field_type,
+    recipient_email: field.recipient_email,
+    ...toStoredRect(field, pageGeometry),
+    required: field.required,
+    label: field.label || null,
+    merge_key: mergeKey || null,
+    locked: !!mergeKey && !!field.locked,
+  };
+}
@@ -0,0 +1,14 @@
+// SHA-256 fingerprints of PDF files, computed in the browser so a downloaded file can be
+// checked against the hashes recorded when it was uploaded and signed
+
+export async function sha256Hex(data: ArrayBuffer | Blob): Promise<string> {
+  const buffer = data instanceof Blob ? await data.arrayBuffer() : data;
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+// Recorded hashes may come back upper-case or with a "sha256:" prefix
+export function hashesMatch(computed: string, recorded?: string | null): boolean {
+  if (!recorded) return false;
+  return computed.toLowerCase() === recorded.toLowerCase().replace(/^sha256:/, '');
+}
@@ -0,0 +1,83 @@
+// Local copy of signing drafts in IndexedDB, so work survives a dropped connection or a
+// closed tab. `synced` is false while the copy holds edits the server hasn't accepted yet.
+
+export interface SigningDraftPayload {
+  textFields: unknown[];
+  signatures: unknown[];
+  fields: unknown[];
+}
+
+// Draft as returned by GET /signing/:id/draft
+export interface ServerDraft extends Partial<SigningDraftPayload> {
+  updated_at?: string;
+}
+
+export interface LocalDraft {
+  documentId: number;
+  payload: SigningDraftPayload;
+  savedAt: number;
+  synced: boolean;
+}
+
+const DB_NAME = 'pdf-signing';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'documentId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to try again instead of caching the failure
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const request = makeRequest(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveLocalDraft = async (draft: LocalDraft): Promise<void> => {
+  await runRequest('readwrite', store => store.put(draft));
+};
+
+export const loadLocalDraft = async (documentId: number): Promise<LocalDraft | null> => {
+  const draft = await runRequest<LocalDraft | undefined>('readonly', store => store.get(documentId));
+  return draft ?? null;
+};
+
+export const deleteLocalDraft = async (documentId: number): Promise<void> => {
+  await runRequest('readwrite', store => store.delete(documentId));
+};
+
+// "just now", "12s ago", "3m ago" - for the autosave status line
+export const formatSavedAgo = (savedAt: number, now: number): string => {
+  const seconds = Math.max(0, Math.round((now - savedAt) / 1000));
+  if (seconds < 2) return 'just now';
+  if (seconds < 60) return `${seconds}s ago`;
+  const minutes = Math.floor(seconds / 60);
+  if (minutes < 60) return `${minutes}m ago`;
+  return `${Math.floor(minutes / 60)}h ago`;
+};
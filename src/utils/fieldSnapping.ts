@@ -0,0 +1,134 @@
+import type { PageProps } from 'react-pdf';
+
+// Snapping and alignment for fields placed on a page. All values are in page units
+// (the same unit as field coordinates), independent of the current zoom.
+
+export const GRID_SIZE = 10;
+// How close an edge has to be before it snaps to a guide
+export const SNAP_THRESHOLD = 5;
+
+export interface FieldBox {
+  id: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface SnapGuide {
+  orientation: 'vertical' | 'horizontal';
+  position: number;
+}
+
+export type AlignCommand = 'left' | 'center' | 'right' | 'top' | 'middle' | 'bottom';
+export type DistributeAxis = 'horizontal' | 'vertical';
+
+type LoadedPage = Parameters<NonNullable<PageProps['onLoadSuccess']>>[0];
+
+// Closest edge/target pair within the threshold, as the offset to move by
+const findSnap = (edges: number[], targets: number[]) => {
+  let best: { offset: number; target: number } | null = null;
+  for (const edge of edges) {
+    for (const target of targets) {
+      const offset = target - edge;
+      if (Math.abs(offset) <= SNAP_THRESHOLD && (!best || Math.abs(offset) < Math.abs(best.offset))) {
+        best = { offset, target };
+      }
+    }
+  }
+  return best;
+};
+
+const snapToGrid = (value: number) => Math.round(value / GRID_SIZE) * GRID_SIZE;
+
+// Snaps a field being dragged to the edges and centres of the other fields on its page
+// and to text baselines. Axes with nothing nearby fall back to the grid.
+export function snapFieldPosition(
+  moving: FieldBox,
+  others: FieldBox[],
+  baselines: number[],
+  useGrid: boolean
+): { x: number; y: number; guides: SnapGuide[] } {
+  const guides: SnapGuide[] = [];
+  let { x, y } = moving;
+
+  const xSnap = findSnap(
+    [moving.x, moving.x + moving.width / 2, moving.x + moving.width],
+    others.flatMap(o => [o.x, o.x + o.width / 2, o.x + o.width])
+  );
+  if (xSnap) {
+    x += xSnap.offset;
+    guides.push({ orientation: 'vertical', position: xSnap.target });
+  } else if (useGrid) {
+    x = snapToGrid(x);
+  }
+
+  const ySnap = findSnap(
+    [moving.y, moving.y + moving.height / 2, moving.y + moving.height],
+    [...others.flatMap(o => [o.y, o.y + o.height / 2, o.y + o.height]), ...baselines]
+  );
+  if (ySnap) {
+    y += ySnap.offset;
+    guides.push({ orientation: 'horizontal', position: ySnap.target });
+  } else if (useGrid) {
+    y = snapToGrid(y);
+  }
+
+  return { x: Math.max(0, x), y: Math.max(0, y), guides };
+}
+
+// New positions, keyed by field id, lining the fields up on one edge or centre line
+export function alignFields(boxes: FieldBox[], command: AlignCommand): Record<string, { x: number; y: number }> {
+  const left = Math.min(...boxes.map(b => b.x));
+  const right = Math.max(...boxes.map(b => b.x + b.width));
+  const top = Math.min(...boxes.map(b => b.y));
+  const bottom = Math.max(...boxes.map(b => b.y + b.height));
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  boxes.forEach(box => {
+    let { x, y } = box;
+    if (command === 'left') x = left;
+    if (command === 'center') x = (left + right) / 2 - box.width / 2;
+    if (command === 'right') x = right - box.width;
+    if (command === 'top') y = top;
+    if (command === 'middle') y = (top + bottom) / 2 - box.height / 2;
+    if (command === 'bottom') y = bottom - box.height;
+    positions[box.id] = { x, y };
+  });
+  return positions;
+}
+
+// Spaces the fields so the gaps between them are equal, keeping the outermost two in place
+export function distributeFields(boxes: FieldBox[], axis: DistributeAxis): Record<string, { x: number; y: number }> {
+  const horizontal = axis === 'horizontal';
+  const start = (b: FieldBox) => (horizontal ? b.x : b.y);
+  const size = (b: FieldBox) => (horizontal ? b.width : b.height);
+
+  const sorted = [...boxes].sort((a, b) => start(a) - start(b));
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
+  const span = start(last) + size(last) - start(first);
+  const totalSize = sorted.reduce((sum, b) => sum + size(b), 0);
+  const gap = (span - totalSize) / Math.max(1, sorted.length - 1);
+
+  const positions: Record<string, { x: number; y: number }> = {};
+  let cursor = start(first);
+  sorted.forEach(box => {
+    positions[box.id] = horizontal ? { x: cursor, y: box.y } : { x: box.x, y: cursor };
+    cursor += size(box) + gap;
+  });
+  return positions;
+}
+
+// Y positions of the text lines on a page, used as horizontal snap targets
+export async function getTextBaselines(page: LoadedPage): Promise<number[]> {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+  const baselines = new Set<number>();
+  content.items.forEach(item => {
+    if (!('transform' in item) || !item.str.trim()) return;
+    const [, y] = viewport.convertToViewportPoint(item.transform[4], item.transform[5]);
+    baselines.add(Math.round(y));
+  });
+  return [...baselines].sort((a, b) => a - b);
+}
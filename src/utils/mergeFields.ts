@@ -0,0 +1,74 @@
+import type { DocumentField, FieldType } from './documentFields';
+
+// Merge fields are text fields bound to data about the recipient or the document, filled in
+// when the recipient opens it. A locked merge field always shows the data; an unlocked one
+// is only a starting value the recipient can change.
+
+export type BuiltInMergeKey = 'recipient_name' | 'recipient_email' | 'recipient_company' | 'today' | 'document_title';
+
+export const MERGE_KEYS: { key: BuiltInMergeKey; label: string }[] = [
+  { key: 'recipient_name', label: 'Recipient name' },
+  { key: 'recipient_email', label: 'Recipient email' },
+  { key: 'recipient_company', label: 'Recipient company' },
+  { key: 'today', label: "Today's date" },
+  { key: 'document_title', label: 'Document title' },
+];
+
+// Only fields the recipient would otherwise type into can be merge fields
+export const MERGEABLE_FIELD_TYPES: FieldType[] = ['text', 'name', 'date'];
+
+// Sender-defined values, e.g. "custom:start_date", looked up in MergeData.custom
+export const CUSTOM_MERGE_PREFIX = 'custom:';
+
+export interface MergeData {
+  recipient_name?: string;
+  recipient_email?: string;
+  recipient_company?: string;
+  document_title?: string;
+  custom?: Record<string, string>;
+}
+
+export function isCustomMergeKey(key: string): boolean {
+  return key.startsWith(CUSTOM_MERGE_PREFIX);
+}
+
+// Trims a custom key; a custom key left empty means no merge key at all
+export function normalizeMergeKey(key: string | undefined): string | undefined {
+  if (!key || !isCustomMergeKey(key)) return key || undefined;
+  const name = key.slice(CUSTOM_MERGE_PREFIX.length).trim();
+  return name ? `${CUSTOM_MERGE_PREFIX}${name}` : undefined;
+}
+
+export function getMergeKeyLabel(key: string): string {
+  if (isCustomMergeKey(key)) {
+    return key.slice(CUSTOM_MERGE_PREFIX.length);
+  }
+  return MERGE_KEYS.find(k => k.key === key)?.label || key;
+}
+
+// Undefined when there's no data for the key, so the field is left for the recipient
+export function resolveMergeValue(key: string, data: MergeData, today: Date): string | undefined {
+  if (isCustomMergeKey(key)) {
+    const name = key.slice(CUSTOM_MERGE_PREFIX.length).toLowerCase();
+    const match = Object.keys(data.custom || {}).find(k => k.toLowerCase() === name);
+    return match !== undefined ? data.custom![match] : undefined;
+  }
+  if (key === 'today') {
+    return today.toLocaleDateString();
+  }
+  return data[key as Exclude<BuiltInMergeKey, 'today'>] || undefined;
+}
+
+export function applyMergeValues(fields: DocumentField[], data: MergeData, today: Date): DocumentField[] {
+  return fields.map(field => {
+    if (!field.merge_key) return field;
+    const value = resolveMergeValue(field.merge_key, data, today);
+    if (value === undefined || (field.value && !field.locked)) return field;
+    return { ...field, value };
+  });
+}
+
+// Locked fields only stay read-only while there is data for them; otherwise the recipient fills them in
+export function isMergeFieldLocked(field: DocumentField, data: MergeData, today: Date): boolean {
+  return !!field.merge_key && !!field.locked && resolveMergeValue(field.merge_key, data, today) !== undefined;
+}
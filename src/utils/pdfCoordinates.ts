@@ -0,0 +1,158 @@
+import type { DocumentProps } from 'react-pdf';
+
+// Field geometry is stored and sent to the API in PDF user-space points: origin at the
+// bottom-left of the page's user space, independent of zoom and of the page's /Rotate.
+// On screen, fields use view units instead: top-left origin of the page as displayed
+// (rotation applied) at scale 1, which is what react-pdf renders before zooming.
+// Geometry saved before this existed was in view units and has no `coordinate_space`.
+
+export const COORDINATE_SPACE = 'pdf_points';
+
+export interface PageGeometry {
+  // Visible area of the page (crop box) in user space: [x0, y0, x1, y1]
+  view: [number, number, number, number];
+  // Clockwise display rotation: 0, 90, 180 or 270
+  rotation: number;
+}
+
+export type PageGeometryMap = Record<number, PageGeometry>;
+
+export interface FieldRect {
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+}
+
+export interface StoredFieldRect extends FieldRect {
+  coordinate_space: typeof COORDINATE_SPACE;
+  // Size and rotation of the page the rect refers to, so a replaced PDF can be detected
+  page_width: number;
+  page_height: number;
+  page_rotation: number;
+}
+
+export type LoadedDocument = Parameters<NonNullable<DocumentProps['onLoadSuccess']>>[0];
+
+export async function loadPageGeometry(pdf: LoadedDocument): Promise<PageGeometryMap> {
+  const geometry: PageGeometryMap = {};
+  await Promise.all(
+    Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(async pageNumber => {
+      const page = await pdf.getPage(pageNumber);
+      const [x0, y0, x1, y1] = page.view;
+      geometry[pageNumber] = { view: [x0, y0, x1, y1], rotation: ((page.rotate % 360) + 360) % 360 };
+    })
+  );
+  return geometry;
+}
+
+// Size of the page as displayed at scale 1
+export function getViewSize(geometry: PageGeometry): { width: number; height: number } {
+  const [x0, y0, x1, y1] = geometry.view;
+  const sideways = geometry.rotation === 90 || geometry.rotation === 270;
+  return sideways ? { width: y1 - y0, height: x1 - x0 } : { width: x1 - x0, height: y1 - y0 };
+}
+
+// Mirrors pdf.js' viewport transform at scale 1
+export function viewToPdfPoint(u: number, v: number, geometry: PageGeometry): [number, number] {
+  const [x0, y0, x1, y1] = geometry.view;
+  switch (geometry.rotation) {
+    case 90:
+      return [x0 + v, y0 + u];
+    case 180:
+      return [x1 - u, y0 + v];
+    case 270:
+      return [x1 - v, y1 - u];
+    default:
+      return [x0 + u, y1 - v];
+  }
+}
+
+export function pdfToViewPoint(x: number, y: number, geometry: PageGeometry): [number, number] {
+  const [x0, y0, x1, y1] = geometry.view;
+  switch (geometry.rotation) {
+    case 90:
+      return [y - y0, x - x0];
+    case 180:
+      return [x1 - x, y - y0];
+    case 270:
+      return [y1 - y, x1 - x];
+    default:
+      return [x - x0, y1 - y];
+  }
+}
+
+// Converts a rect by its two opposite corners; rotation may swap which corner is which
+const convertRect = (
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  convert: (a: number, b: number) => [number, number]
+) => {
+  const [ax, ay] = convert(x, y);
+  const [bx, by] = convert(x + width, y + height);
+  return {
+    x: Math.min(ax, bx),
+    y: Math.min(ay, by),
+    width: Math.abs(bx - ax),
+    height: Math.abs(by - ay),
+  };
+};
+
+// Without geometry for the page (e.g. a legacy field beyond the last page) the rect is kept
+// in view units and saved without a coordinate space, so it's read back as a legacy rect.
+export function toStoredRect(field: FieldRect, geometryMap: PageGeometryMap): FieldRect | StoredFieldRect {
+  const geometry = geometryMap[field.page_number];
+  if (!geometry) {
+    const { page_number, x_coordinate, y_coordinate, width, height } = field;
+    return { page_number, x_coordinate, y_coordinate, width, height };
+  }
+  const [x0, y0, x1, y1] = geometry.view;
+  const rect = convertRect(field.x_coordinate, field.y_coordinate, field.width, field.height,
+    (u, v) => viewToPdfPoint(u, v, geometry));
+  return {
+    page_number: field.page_number,
+    x_coordinate: rect.x,
+    y_coordinate: rect.y,
+    width: rect.width,
+    height: rect.height,
+    coordinate_space: COORDINATE_SPACE,
+    page_width: x1 - x0,
+    page_height: y1 - y0,
+    page_rotation: geometry.rotation,
+  };
+}
+
+// Converts stored geometry to view units. Legacy rects are already in view units and are
+// returned unchanged with `migrated` set, so callers know to save them back in points.
+export function fromStoredRect<T extends FieldRect & Partial<StoredFieldRect>>(
+  field: T,
+  geometryMap: PageGeometryMap
+): { field: T; migrated: boolean } {
+  const geometry = geometryMap[field.page_number];
+  if (field.coordinate_space !== COORDINATE_SPACE) {
+    return { field, migrated: true };
+  }
+  if (!geometry) {
+    return { field, migrated: false };
+  }
+
+  // If the page size changed since the rect was saved, keep it in the same relative spot
+  const [x0, y0, x1, y1] = geometry.view;
+  const scaleX = field.page_width ? (x1 - x0) / field.page_width : 1;
+  const scaleY = field.page_height ? (y1 - y0) / field.page_height : 1;
+  const rect = convertRect(
+    x0 + (field.x_coordinate - x0) * scaleX,
+    y0 + (field.y_coordinate - y0) * scaleY,
+    field.width * scaleX,
+    field.height * scaleY,
+    (x, y) => pdfToViewPoint(x, y, geometry)
+  );
+
+  return {
+    field: { ...field, x_coordinate: rect.x, y_coordinate: rect.y, width: rect.width, height: rect.height },
+    migrated: false,
+  };
+}
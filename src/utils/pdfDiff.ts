@@ -0,0 +1,140 @@
+import { pdfjs } from 'react-pdf';
+import type { LoadedDocument } from './pdfCoordinates';
+
+// Pixel comparison of two versions of a document, used to show reviewers what a signer added.
+// Pages are rendered at scale 1, so regions come out in view units (see pdfCoordinates).
+
+export interface DiffRegion {
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+}
+
+// Pages are compared in cells; a cell is changed if any pixel in it differs noticeably
+const CELL_SIZE = 8;
+// Summed RGB difference above which a pixel counts as changed (ignores anti-aliasing noise)
+const PIXEL_THRESHOLD = 96;
+// Changed cells this close together are reported as one region, e.g. the letters of a word
+const MERGE_DISTANCE = 2;
+
+async function renderPageImage(pdf: LoadedDocument, pageNumber: number): Promise<ImageData> {
+  const page = await pdf.getPage(pageNumber);
+  const viewport = page.getViewport({ scale: 1 });
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.ceil(viewport.width);
+  canvas.height = Math.ceil(viewport.height);
+  const context = canvas.getContext('2d', { willReadFrequently: true });
+  if (!context) {
+    throw new Error('Canvas is not available');
+  }
+  await page.render({ canvasContext: context, viewport }).promise;
+  return context.getImageData(0, 0, canvas.width, canvas.height);
+}
+
+function findChangedCells(before: ImageData, after: ImageData, columns: number, rows: number): boolean[] {
+  const width = Math.min(before.width, after.width);
+  const height = Math.min(before.height, after.height);
+  const changed = new Array<boolean>(columns * rows).fill(false);
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const cell = Math.floor(y / CELL_SIZE) * columns + Math.floor(x / CELL_SIZE);
+      if (changed[cell]) continue;
+      const a = (y * before.width + x) * 4;
+      const b = (y * after.width + x) * 4;
+      const difference =
+        Math.abs(before.data[a] - after.data[b]) +
+        Math.abs(before.data[a + 1] - after.data[b + 1]) +
+        Math.abs(before.data[a + 2] - after.data[b + 2]);
+      if (difference > PIXEL_THRESHOLD) {
+        changed[cell] = true;
+      }
+    }
+  }
+  return changed;
+}
+
+function findChangedRegions(before: ImageData, after: ImageData, pageNumber: number): DiffRegion[] {
+  const columns = Math.ceil(after.width / CELL_SIZE);
+  const rows = Math.ceil(after.height / CELL_SIZE);
+  const changed = findChangedCells(before, after, columns, rows);
+  const visited = new Array<boolean>(columns * rows).fill(false);
+  const regions: DiffRegion[] = [];
+
+  // Group nearby changed cells and report each group's bounding box
+  for (let start = 0; start < changed.length; start++) {
+    if (!changed[start] || visited[start]) continue;
+    let minColumn = columns;
+    let maxColumn = 0;
+    let minRow = rows;
+    let maxRow = 0;
+    const stack = [start];
+    visited[start] = true;
+
+    while (stack.length > 0) {
+      const cell = stack.pop()!;
+      const column = cell % columns;
+      const row = Math.floor(cell / columns);
+      minColumn = Math.min(minColumn, column);
+      maxColumn = Math.max(maxColumn, column);
+      minRow = Math.min(minRow, row);
+      maxRow = Math.max(maxRow, row);
+
+      for (let dy = -MERGE_DISTANCE; dy <= MERGE_DISTANCE; dy++) {
+        for (let dx = -MERGE_DISTANCE; dx <= MERGE_DISTANCE; dx++) {
+          const nextColumn = column + dx;
+          const nextRow = row + dy;
+          if (nextColumn < 0 || nextColumn >= columns || nextRow < 0 || nextRow >= rows) continue;
+          const next = nextRow * columns + nextColumn;
+          if (changed[next] && !visited[next]) {
+            visited[next] = true;
+            stack.push(next);
+          }
+        }
+      }
+    }
+
+    regions.push({
+      page_number: pageNumber,
+      x_coordinate: minColumn * CELL_SIZE,
+      y_coordinate: minRow * CELL_SIZE,
+      width: Math.min(after.width, (maxColumn + 1) * CELL_SIZE) - minColumn * CELL_SIZE,
+      height: Math.min(after.height, (maxRow + 1) * CELL_SIZE) - minRow * CELL_SIZE,
+    });
+  }
+
+  return regions;
+}
+
+// Regions that differ on every page of `after`. Pages missing from `before` count as changed entirely.
+async function diffDocuments(before: LoadedDocument, after: LoadedDocument): Promise<DiffRegion[]> {
+  const regions: DiffRegion[] = [];
+  for (let pageNumber = 1; pageNumber <= after.numPages; pageNumber++) {
+    const afterImage = await renderPageImage(after, pageNumber);
+    if (pageNumber > before.numPages) {
+      regions.push({ page_number: pageNumber, x_coordinate: 0, y_coordinate: 0, width: afterImage.width, height: afterImage.height });
+      continue;
+    }
+    const beforeImage = await renderPageImage(before, pageNumber);
+    regions.push(...findChangedRegions(beforeImage, afterImage, pageNumber));
+  }
+  return regions;
+}
+
+// Loads both files separately from anything on screen, so the comparison can't be cut short
+// by a viewer unmounting its copy of the document
+export async function diffPdfFiles(beforeUrl: string, afterUrl: string): Promise<DiffRegion[]> {
+  const before = await pdfjs.getDocument(beforeUrl).promise;
+  try {
+    const after = await pdfjs.getDocument(afterUrl).promise;
+    try {
+      return await diffDocuments(before, after);
+    } finally {
+      after.destroy();
+    }
+  } finally {
+    before.destroy();
+  }
+}
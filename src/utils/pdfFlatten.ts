@@ -0,0 +1,112 @@
+import { PDFDocument, StandardFonts, degrees, rgb } from 'pdf-lib';
+import type { PDFFont } from 'pdf-lib';
+import { viewToPdfPoint } from './pdfCoordinates';
+import type { PageGeometry, PageGeometryMap } from './pdfCoordinates';
+
+// Burns placed text, signatures and checkmarks into a copy of the PDF in the browser,
+// so the signer can see the final output before it is submitted.
+// Items are in view units (see pdfCoordinates) and are drawn upright as displayed,
+// including on rotated pages.
+
+interface FlattenBox {
+  page_number: number;
+  x_coordinate: number;
+  y_coordinate: number;
+  width: number;
+  height: number;
+}
+
+export interface FlattenText extends FlattenBox {
+  text: string;
+  font_size: number;
+}
+
+export interface FlattenImage extends FlattenBox {
+  imageUrl: string;
+}
+
+export interface FlattenInput {
+  texts: FlattenText[];
+  images: FlattenImage[];
+  checkmarks: FlattenBox[];
+}
+
+// Maps a point given relative to the box's displayed bottom-left corner (right/up positive)
+// into user space. Drawing with `rotate: degrees(rotation)` keeps content upright on screen.
+const boxPointToPdf = (box: FlattenBox, geometry: PageGeometry, dx: number, dy: number) => {
+  const [x, y] = viewToPdfPoint(box.x_coordinate + dx, box.y_coordinate + box.height - dy, geometry);
+  return { x, y };
+};
+
+// Standard fonts only cover WinAnsi; drop characters they can't encode instead of failing
+export const toEncodableText = (font: PDFFont, text: string) =>
+  Array.from(text)
+    .filter(char => {
+      try {
+        font.encodeText(char);
+        return true;
+      } catch {
+        return false;
+      }
+    })
+    .join('');
+
+const embedImage = async (pdfDoc: PDFDocument, imageUrl: string) => {
+  const bytes = new Uint8Array(await (await fetch(imageUrl)).arrayBuffer());
+  const isPng = bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47;
+  return isPng ? pdfDoc.embedPng(bytes) : pdfDoc.embedJpg(bytes);
+};
+
+export async function flattenSignedPdf(
+  pdfBytes: ArrayBuffer,
+  input: FlattenInput,
+  geometryMap: PageGeometryMap
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.load(pdfBytes);
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica);
+  const pages = pdfDoc.getPages();
+  const getPage = (pageNumber: number) => pages[pageNumber - 1];
+
+  for (const item of input.texts) {
+    const page = getPage(item.page_number);
+    const geometry = geometryMap[item.page_number];
+    const text = toEncodableText(font, item.text);
+    if (!page || !geometry || !text) continue;
+    // Vertically centred like the input on screen
+    const baselineOffset = (item.height - font.heightAtSize(item.font_size, { descender: false })) / 2;
+    page.drawText(text, {
+      ...boxPointToPdf(item, geometry, 2, Math.max(0, baselineOffset)),
+      rotate: degrees(geometry.rotation),
+      size: item.font_size,
+      font,
+      color: rgb(0, 0, 0),
+    });
+  }
+
+  for (const item of input.images) {
+    const page = getPage(item.page_number);
+    const geometry = geometryMap[item.page_number];
+    if (!page || !geometry) continue;
+    const image = await embedImage(pdfDoc, item.imageUrl);
+    // Same as object-fit: contain
+    const fit = image.scaleToFit(item.width, item.height);
+    page.drawImage(image, {
+      ...boxPointToPdf(item, geometry, (item.width - fit.width) / 2, (item.height - fit.height) / 2),
+      rotate: degrees(geometry.rotation),
+      width: fit.width,
+      height: fit.height,
+    });
+  }
+
+  for (const item of input.checkmarks) {
+    const page = getPage(item.page_number);
+    const geometry = geometryMap[item.page_number];
+    if (!page || !geometry) continue;
+    const point = (fx: number, fy: number) => boxPointToPdf(item, geometry, item.width * fx, item.height * fy);
+    const thickness = Math.max(1, Math.min(item.width, item.height) / 8);
+    page.drawLine({ start: point(0.2, 0.5), end: point(0.42, 0.25), thickness, color: rgb(0, 0, 0) });
+    page.drawLine({ start: point(0.42, 0.25), end: point(0.8, 0.8), thickness, color: rgb(0, 0, 0) });
+  }
+
+  return pdfDoc.save();
+}
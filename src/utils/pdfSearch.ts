@@ -0,0 +1,65 @@
+import type { LoadedDocument } from './pdfCoordinates';
+
+// Text search over the PDF's text content, the same text react-pdf renders in the text layer.
+// Scanned PDFs have no text until they are OCR'd; once they are, the OCR text layer is searched
+// like any other.
+
+export interface SearchMatch {
+  pageNumber: number;
+  // Index into the page's text content items, as passed to react-pdf's customTextRenderer
+  itemIndex: number;
+  start: number;
+  end: number;
+}
+
+// Text of every item on every page, indexed like page.getTextContent().items
+export type PageTexts = Record<number, string[]>;
+
+export async function loadPageTexts(pdf: LoadedDocument): Promise<PageTexts> {
+  const texts: PageTexts = {};
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber);
+    const content = await page.getTextContent();
+    texts[pageNumber] = content.items.map(item => ('str' in item ? item.str : ''));
+  }
+  return texts;
+}
+
+// Case-insensitive matches in document order. Matches don't span text items, which is
+// usually a line or a run of words on it.
+export function findTextMatches(pageTexts: PageTexts, query: string): SearchMatch[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return [];
+
+  const matches: SearchMatch[] = [];
+  Object.keys(pageTexts)
+    .map(Number)
+    .sort((a, b) => a - b)
+    .forEach(pageNumber => {
+      pageTexts[pageNumber].forEach((text, itemIndex) => {
+        const haystack = text.toLowerCase();
+        let start = haystack.indexOf(needle);
+        while (start !== -1) {
+          matches.push({ pageNumber, itemIndex, start, end: start + needle.length });
+          start = haystack.indexOf(needle, start + needle.length);
+        }
+      });
+    });
+  return matches;
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// HTML for one text layer item with its matches wrapped in <mark>
+export function highlightTextItem(text: string, matches: SearchMatch[], activeMatch: SearchMatch | null): string {
+  let html = '';
+  let position = 0;
+  for (const match of matches) {
+    const className = match === activeMatch ? 'pdf-search-match pdf-search-match-active' : 'pdf-search-match';
+    html += escapeHtml(text.slice(position, match.start));
+    html += `<mark class="${className}">${escapeHtml(text.slice(match.start, match.end))}</mark>`;
+    position = match.end;
+  }
+  return html + escapeHtml(text.slice(position));
+}
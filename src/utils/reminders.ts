@@ -0,0 +1,48 @@
+// Reminder rules for an assignment. Reminders go to recipients who haven't signed yet:
+// every `interval_days` after assignment, then daily once the due date is within
+// `daily_within_hours`. When the due date passes, the sender can be notified as well.
+
+export interface ReminderRule {
+  interval_days: number;
+  // Null means no daily reminders before the due date
+  daily_within_hours: number | null;
+  escalate_to_sender: boolean;
+}
+
+export const DEFAULT_REMINDER_RULE: ReminderRule = {
+  interval_days: 2,
+  daily_within_hours: 48,
+  escalate_to_sender: true,
+};
+
+// Statuses with no signature outstanding: not sent out yet, already signed, refused or recalled
+const FINISHED_STATUSES = ['signed', 'waiting_confirmation', 'draft', 'declined', 'voided'];
+
+// Local midnight of a `YYYY-MM-DD` due date. new Date('YYYY-MM-DD') is UTC midnight instead,
+// which is still the previous day in timezones west of UTC.
+export function parseDueDate(dueDate: string): Date {
+  const [year, month, day] = dueDate.slice(0, 10).split('-').map(Number);
+  return new Date(year, month - 1, day);
+}
+
+// A document is overdue once its due date has passed and it still needs signatures.
+// Due dates are whole days, so a document due today is not overdue until tomorrow.
+export function isOverdue(doc: { due_date?: string; status: string }, now: Date): boolean {
+  if (!doc.due_date || FINISHED_STATUSES.includes(doc.status)) {
+    return false;
+  }
+  const endOfDueDay = parseDueDate(doc.due_date);
+  endOfDueDay.setHours(23, 59, 59, 999);
+  return endOfDueDay.getTime() < now.getTime();
+}
+
+export function describeReminderRule(rule: ReminderRule, hasDueDate: boolean): string {
+  let description = `Every ${rule.interval_days} ${rule.interval_days === 1 ? 'day' : 'days'}`;
+  if (hasDueDate && rule.daily_within_hours) {
+    description += `, then daily within ${rule.daily_within_hours}h of the due date`;
+  }
+  if (hasDueDate && rule.escalate_to_sender) {
+    description += '; you are notified if it becomes overdue';
+  }
+  return description;
+}
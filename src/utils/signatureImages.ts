@@ -0,0 +1,116 @@
+import api from './api';
+import type { SignatureStrokeData } from './signatureStrokes';
+
+export const loadSignatureImage = async (path: string): Promise<string> => {
+  try {
+    // Extract just the filename from the path (handles both / and \ separators)
+    let filename = path;
+    if (path.includes('/')) {
+      filename = path.split('/').pop() || path;
+    } else if (path.includes('\\')) {
+      filename = path.split('\\').pop() || path;
+    }
+
+    // Remove any leading path components that might be in the filename
+    filename = filename.replace(/^.*[\/\\]/, '');
+
+    console.log('Loading signature image:', { originalPath: path, extractedFilename: filename });
+
+    const response = await api.get(`/signing/signatures/${filename}`, {
+      responseType: 'blob',
+    });
+    return URL.createObjectURL(response.data);
+  } catch (error) {
+    console.error('Failed to load signature image:', error);
+    console.error('Path was:', path);
+    return '';
+  }
+};
+
+// Stroke data from a drawn signature is stored next to the PNG as a forensic record
+export const uploadSignatureBlob = async (blob: Blob, strokeData?: SignatureStrokeData): Promise<string | null> => {
+  try {
+    const formData = new FormData();
+    formData.append('signature', blob, 'signature.png');
+    if (strokeData) {
+      formData.append('strokes', JSON.stringify(strokeData));
+    }
+
+    const response = await api.post('/signing/signature/upload', formData, {
+      headers: { 'Content-Type': 'multipart/form-data' },
+    });
+    return response.data.signature_path;
+  } catch (error) {
+    console.error('Failed to upload signature:', error);
+    return null;
+  }
+};
+
+const MAX_SIGNATURE_FILE_SIZE = 5 * 1024 * 1024; // 5MB
+const MAX_SIGNATURE_DIMENSION = 2000;
+const SIGNATURE_IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/jpg'];
+
+// Checks an uploaded signature image; returns the problem to show, or null if it's fine
+export const validateSignatureImage = async (file: File): Promise<string | null> => {
+  if (file.size > MAX_SIGNATURE_FILE_SIZE) {
+    return `File is too large. Maximum size is 5MB. Your file is ${(file.size / (1024 * 1024)).toFixed(2)}MB`;
+  }
+  if (!SIGNATURE_IMAGE_TYPES.includes(file.type)) {
+    return 'Invalid file type. Please upload a PNG or JPEG image.';
+  }
+
+  const imageUrl = URL.createObjectURL(file);
+  try {
+    const img = new Image();
+    await new Promise((resolve, reject) => {
+      img.onload = resolve;
+      img.onerror = reject;
+      img.src = imageUrl;
+    });
+    if (img.width > MAX_SIGNATURE_DIMENSION || img.height > MAX_SIGNATURE_DIMENSION) {
+      return `Image dimensions are too large. Maximum is ${MAX_SIGNATURE_DIMENSION}x${MAX_SIGNATURE_DIMENSION}px. Your image is ${img.width}x${img.height}px`;
+    }
+    return null;
+  } catch {
+    return 'Failed to load image. Please ensure it is a valid image file.';
+  } finally {
+    URL.revokeObjectURL(imageUrl);
+  }
+};
+
+export const isCanvasEmpty = (canvas: HTMLCanvasElement): boolean => {
+  const ctx = canvas.getContext('2d');
+  const imageData = ctx?.getImageData(0, 0, canvas.width, canvas.height);
+  // Check alpha channel (every 4th value)
+  return !imageData?.data.some((pixel, index) => index % 4 === 3 && pixel > 0);
+};
+
+export const canvasToBlob = async (canvas: HTMLCanvasElement): Promise<Blob> => {
+  const dataUrl = canvas.toDataURL('image/png');
+  return (await fetch(dataUrl)).blob();
+};
+
+export type SavedSignatureKind = 'signature' | 'initials';
+
+export interface SavedSignature {
+  id: number;
+  name: string;
+  kind: SavedSignatureKind;
+  signature_image_path: string;
+  is_default: boolean;
+  created_at: string;
+  stroke_data?: string | SignatureStrokeData | null;
+  imageUrl?: string;
+}
+
+// Loads the current user's saved signature library along with preview URLs
+export const loadSavedSignatures = async (): Promise<SavedSignature[]> => {
+  const response = await api.get('/signing/saved-signatures');
+  const saved: SavedSignature[] = response.data.signatures || [];
+  return Promise.all(
+    saved.map(async (sig) => ({
+      ...sig,
+      imageUrl: await loadSignatureImage(sig.signature_image_path),
+    }))
+  );
+};
@@ -0,0 +1,93 @@
+// Vector capture of drawn signatures. Each stroke keeps its timed points so the
+// signature can be re-rendered at any size and kept as a record of how it was drawn.
+
+export interface StrokePoint {
+  x: number;
+  y: number;
+  // Milliseconds since the first point of the signature
+  t: number;
+  pressure: number;
+}
+
+export type Stroke = StrokePoint[];
+
+export interface SignatureStrokeData {
+  width: number;
+  height: number;
+  strokes: Stroke[];
+}
+
+export const BASE_LINE_WIDTH = 2;
+const MIN_LINE_WIDTH = 1;
+const MAX_LINE_WIDTH = 4.5;
+
+// Pressure of 0 means the device doesn't report it (mouse, most fingers)
+export function getStrokeWidth(pressure: number): number {
+  if (pressure <= 0) return BASE_LINE_WIDTH;
+  return MIN_LINE_WIDTH + (MAX_LINE_WIDTH - MIN_LINE_WIDTH) * pressure;
+}
+
+const midpoint = (a: StrokePoint, b: StrokePoint) => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Draws the newest piece of a stroke as a quadratic curve through the midpoints of
+// the last samples, so the line stays smooth between pointer events
+export function drawStrokeSegment(ctx: CanvasRenderingContext2D, stroke: Stroke, index: number) {
+  const point = stroke[index];
+  if (index === 0) {
+    ctx.beginPath();
+    ctx.arc(point.x, point.y, getStrokeWidth(point.pressure) / 2, 0, Math.PI * 2);
+    ctx.fill();
+    return;
+  }
+
+  const previous = stroke[index - 1];
+  const start = index > 1 ? midpoint(stroke[index - 2], previous) : previous;
+  const end = midpoint(previous, point);
+
+  ctx.lineWidth = getStrokeWidth(point.pressure);
+  ctx.beginPath();
+  ctx.moveTo(start.x, start.y);
+  ctx.quadraticCurveTo(previous.x, previous.y, end.x, end.y);
+  ctx.stroke();
+}
+
+export function drawStrokes(ctx: CanvasRenderingContext2D, strokes: Stroke[]) {
+  strokes.forEach(stroke => {
+    stroke.forEach((_, index) => drawStrokeSegment(ctx, stroke, index));
+  });
+}
+
+// SVG path data for a stroke, smoothed the same way as on the canvas
+export function strokeToSvgPath(stroke: Stroke): string {
+  if (stroke.length === 0) return '';
+  if (stroke.length === 1) {
+    const { x, y } = stroke[0];
+    return `M ${x} ${y} L ${x + 0.1} ${y}`;
+  }
+
+  let path = `M ${stroke[0].x} ${stroke[0].y}`;
+  for (let i = 1; i < stroke.length; i++) {
+    const end = midpoint(stroke[i - 1], stroke[i]);
+    path += ` Q ${stroke[i - 1].x} ${stroke[i - 1].y} ${end.x} ${end.y}`;
+  }
+  const last = stroke[stroke.length - 1];
+  return `${path} L ${last.x} ${last.y}`;
+}
+
+export function getAverageStrokeWidth(stroke: Stroke): number {
+  if (stroke.length === 0) return BASE_LINE_WIDTH;
+  const total = stroke.reduce((sum, point) => sum + getStrokeWidth(point.pressure), 0);
+  return total / stroke.length;
+}
+
+// Stroke data may come back from the API as a JSON string
+export function parseStrokeData(value: unknown): SignatureStrokeData | undefined {
+  if (!value) return undefined;
+  try {
+    const data = typeof value === 'string' ? JSON.parse(value) : value;
+    return Array.isArray(data?.strokes) ? data as SignatureStrokeData : undefined;
+  } catch (error) {
+    console.warn('Ignoring invalid signature stroke data:', error);
+    return undefined;
+  }
+}
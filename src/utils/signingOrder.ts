@@ -0,0 +1,45 @@
+// Signing order for multi-recipient assignments. Recipients in the same stage
+// sign in parallel; a stage is only notified once the previous one has submitted.
+
+export interface SigningStep {
+  email: string;
+  parallel_with_previous: boolean;
+}
+
+// Trimmed, lowercased and without repeats, so each signer gets exactly one step
+export function normalizeRecipientEmails(emails: string[]): string[] {
+  const normalized = emails.map(email => email.trim().toLowerCase()).filter(email => email);
+  return [...new Set(normalized)];
+}
+
+// Keep the user's ordering for emails that are still selected and append new ones at the end
+export function reconcileSigningOrder(steps: SigningStep[], recipientEmails: string[]): SigningStep[] {
+  const emails = normalizeRecipientEmails(recipientEmails);
+  const kept = steps.filter(step => emails.includes(step.email));
+  const added = emails
+    .filter(email => !kept.some(step => step.email === email))
+    .map(email => ({ email, parallel_with_previous: false }));
+  return [...kept, ...added];
+}
+
+// Stage numbers (starting at 1) for each step, in order
+export function getSigningStages(steps: SigningStep[]): number[] {
+  let stage = 0;
+  return steps.map((step, index) => {
+    if (index === 0 || !step.parallel_with_previous) {
+      stage += 1;
+    }
+    return stage;
+  });
+}
+
+export function moveSigningStep(steps: SigningStep[], from: number, to: number): SigningStep[] {
+  const next = [...steps];
+  const [moved] = next.splice(from, 1);
+  next.splice(to, 0, moved);
+  // The first recipient always starts a new stage
+  if (next.length > 0) {
+    next[0] = { ...next[0], parallel_with_previous: false };
+  }
+  return next;
+}
@@ -0,0 +1,37 @@
+import { parseStoredField, serializeField } from './documentFields';
+import type { DocumentField, StoredField } from './documentFields';
+import type { PageGeometryMap } from './pdfCoordinates';
+
+// Reusable documents: a PDF plus a field layout whose fields belong to named roles
+// ("Employee", "Manager") instead of people. Each use of a template supplies an email per role.
+
+export interface DocumentTemplate {
+  id: number;
+  name: string;
+  roles: string[];
+  field_count?: number;
+  created_at: string;
+  created_by_name?: string;
+}
+
+export interface TemplateRecipient {
+  role: string;
+  email: string;
+}
+
+export type StoredTemplateField = Omit<StoredField, 'recipient_email'> & { role: string };
+
+// The field editor keeps a template field's role in recipient_email; the API stores it as `role`
+export function parseTemplateField({ role, ...field }: StoredTemplateField): DocumentField {
+  return parseStoredField({ ...field, recipient_email: role });
+}
+
+export function serializeTemplateField(field: DocumentField, pageGeometry: PageGeometryMap) {
+  const { recipient_email, ...stored } = serializeField(field, pageGeometry);
+  return { ...stored, role: recipient_email };
+}
+
+// Roles from the template that still need an email
+export function getUnfilledRoles(roles: string[], emails: Record<string, string>): string[] {
+  return roles.filter(role => !emails[role]?.trim());
+}
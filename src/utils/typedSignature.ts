@@ -0,0 +1,61 @@
+// Renders a typed name in a handwriting font, for signers who prefer typing to drawing.
+// Fonts are bundled with the app so the rendered PNG doesn't depend on what's installed locally.
+import '@fontsource/dancing-script/400.css';
+import '@fontsource/great-vibes/400.css';
+import '@fontsource/caveat/400.css';
+import '@fontsource/homemade-apple/400.css';
+
+export const SIGNATURE_FONTS = [
+  { family: 'Dancing Script', label: 'Dancing Script' },
+  { family: 'Great Vibes', label: 'Great Vibes' },
+  { family: 'Caveat', label: 'Caveat' },
+  { family: 'Homemade Apple', label: 'Homemade Apple' },
+];
+
+// Same resolution as the signature drawing canvas
+export const SIGNATURE_CANVAS_WIDTH = 300;
+export const SIGNATURE_CANVAS_HEIGHT = 150;
+
+const MAX_FONT_SIZE = 64;
+const PADDING = 16;
+
+export async function renderTypedSignature(
+  text: string,
+  fontFamily: string,
+  width = SIGNATURE_CANVAS_WIDTH,
+  height = SIGNATURE_CANVAS_HEIGHT,
+): Promise<Blob> {
+  // Make sure the font has actually loaded, otherwise the canvas falls back to a default font
+  await document.fonts.load(`${MAX_FONT_SIZE}px "${fontFamily}"`, text);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not supported in this browser');
+  }
+
+  // Shrink the font until the name fits inside the canvas
+  let fontSize = MAX_FONT_SIZE;
+  ctx.font = `${fontSize}px "${fontFamily}"`;
+  while (fontSize > 12 && ctx.measureText(text).width > width - PADDING * 2) {
+    fontSize -= 2;
+    ctx.font = `${fontSize}px "${fontFamily}"`;
+  }
+
+  ctx.fillStyle = '#000000';
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillText(text, width / 2, height / 2);
+
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('Failed to render typed signature'));
+      }
+    }, 'image/png');
+  });
+}
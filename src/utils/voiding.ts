@@ -0,0 +1,18 @@
+// Voiding recalls a document after it has been assigned. Every recipient loses access and
+// nothing more can be signed, but the document stays in the lists marked as voided.
+
+interface DocumentStatuses {
+  status?: string;
+  recipient_status?: string;
+}
+
+// Statuses in which the document is out with recipients and can still be recalled
+const VOIDABLE_STATUSES = ['pending', 'sent_back_for_signing', 'waiting_confirmation', 'declined'];
+
+export function isVoided(doc: DocumentStatuses): boolean {
+  return doc.status === 'voided' || doc.recipient_status === 'voided';
+}
+
+export function canVoid(doc: DocumentStatuses): boolean {
+  return !!doc.status && VOIDABLE_STATUSES.includes(doc.status);
+}